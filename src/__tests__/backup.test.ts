@@ -0,0 +1,155 @@
+import { TEMP_DATA_DIR } from './temp-storage';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import { after, describe, it } from 'node:test';
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  BackupArchive,
+  restoreBackup,
+  validateBackup,
+} from '../backup';
+import { getStorage } from '../storage';
+import { addContact, ensureAccount, getMessages } from '../store';
+
+function archive(contact: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: '2025-05-01T09:00:00.000Z',
+    accountSid: 'AC0123456789abcdef0123456789abcdef',
+    data: {
+      contacts: [
+        {
+          id: 'c1',
+          name: 'Ada',
+          phone: '+14155550100',
+          birthday: '12-10',
+          birthdayFull: '1990-12-10',
+          timeZone: 'America/New_York',
+          sendTime: '09:00',
+          occasions: [
+            { id: 'birthday', type: 'birthday', templateMode: 'random' },
+            {
+              id: 'a1',
+              type: 'anniversary',
+              date: '06-01',
+              sendTime: '18:30',
+              templateMode: 'fixed',
+            },
+          ],
+          createdAt: '2025-01-01T00:00:00.000Z',
+          ...contact,
+        },
+      ],
+      messages: [],
+    },
+  };
+}
+
+function withOccasion(occasion: Record<string, unknown>): Record<string, unknown> {
+  return archive({ occasions: [{ id: 'a1', type: 'anniversary', date: '06-01', ...occasion }] });
+}
+
+describe('validateBackup', () => {
+  it('accepts a well-formed archive', () => {
+    assert.deepEqual(validateBackup(archive()), []);
+  });
+
+  it('rejects a contact time zone that is not an IANA zone', () => {
+    assert.deepEqual(validateBackup(archive({ timeZone: 'Mars/Base' })), [
+      'contacts[0].timeZone "Mars/Base" is not a valid IANA time zone.',
+    ]);
+  });
+
+  it('rejects a contact send time that is not HH:MM', () => {
+    assert.deepEqual(validateBackup(archive({ sendTime: '25:00' })), [
+      'contacts[0].sendTime must be HH:MM (24-hour).',
+    ]);
+    assert.deepEqual(validateBackup(archive({ sendTime: 900 })), [
+      'contacts[0].sendTime must be HH:MM (24-hour).',
+    ]);
+  });
+
+  it('rejects an unknown contact template mode', () => {
+    assert.deepEqual(validateBackup(archive({ templateMode: 'sometimes' })), [
+      'contacts[0].templateMode must be "random" or "fixed".',
+    ]);
+  });
+
+  it('rejects an occasion send time that is not HH:MM', () => {
+    assert.deepEqual(validateBackup(withOccasion({ sendTime: '9am' })), [
+      'contacts[0].occasions[0].sendTime must be HH:MM (24-hour).',
+    ]);
+  });
+
+  it('rejects an unknown occasion template mode', () => {
+    assert.deepEqual(validateBackup(withOccasion({ templateMode: 'fixedish' })), [
+      'contacts[0].occasions[0].templateMode must be "random" or "fixed".',
+    ]);
+  });
+
+  it('rejects settings the settings API would refuse', () => {
+    const bad = archive();
+    (bad.data as Record<string, unknown>).settings = {
+      quietHours: { start: '25:00', end: '08:00' },
+    };
+    assert.deepEqual(validateBackup(bad), [
+      'Backup settings: quietHours start and end must be in HH:MM (24-hour) format.',
+    ]);
+  });
+});
+
+describe('restoreBackup', () => {
+  const accountSid = 'AC0123456789abcdef0123456789abcdef';
+
+  after(() => {
+    getStorage().close();
+    fs.rmSync(TEMP_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it('moves history of a contact skipped for its number to the contact with it', () => {
+    ensureAccount(accountSid);
+    addContact(accountSid, {
+      id: 'here',
+      name: 'Ada Lovelace',
+      phone: '+14155550100',
+      birthday: '12-10',
+      birthdayFull: '1990-12-10',
+      createdAt: '2025-01-01T00:00:00.000Z',
+    });
+    const backup = archive() as unknown as BackupArchive;
+    const message = {
+      contactId: 'c1',
+      contactName: 'Ada',
+      phone: '+14155550100',
+      messageBody: 'Happy birthday!',
+      createdAt: '2024-12-01T00:00:00.000Z',
+    };
+    backup.data.messages = [
+      {
+        ...message,
+        id: 'sent',
+        scheduledFor: '2024-12-10T14:00:00.000Z',
+        status: 'delivered',
+        year: 2024,
+      },
+      {
+        ...message,
+        id: 'pending',
+        scheduledFor: '2025-12-10T14:00:00.000Z',
+        status: 'scheduled',
+        year: 2025,
+      },
+    ];
+
+    const report = restoreBackup(accountSid, backup, 'merge', 'id');
+
+    assert.equal(report.contacts.skipped, 1);
+    assert.deepEqual(
+      getMessages(accountSid).map((m) => [m.id, m.contactId]),
+      [['sent', 'here']]
+    );
+    assert.equal(report.messages.skipped, 1);
+  });
+});
@@ -0,0 +1,84 @@
+import { TEMP_DATA_DIR } from './temp-storage';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import { after, before, describe, it } from 'node:test';
+import { applyStatusCallback } from '../delivery-status';
+import { getStorage } from '../storage';
+import { addMessage, ensureAccount, getMessage } from '../store';
+import { ScheduledMessage } from '../types';
+
+const ACCOUNT_SID = 'AC0123456789abcdef0123456789abcdef';
+const BROADCAST_SID = 'NT00000000000000000000000000000001';
+const SINGLE_SID = 'NT00000000000000000000000000000002';
+
+function sent(id: string, fields: Partial<ScheduledMessage>): ScheduledMessage {
+  return {
+    id,
+    contactId: id,
+    contactName: id,
+    phone: '+14155550100',
+    messageBody: 'Hello',
+    scheduledFor: '2025-05-01T09:00:00.000Z',
+    status: 'sent',
+    createdAt: '2025-05-01T09:00:00.000Z',
+    year: 2025,
+    ...fields,
+  };
+}
+
+describe('applyStatusCallback by notification SID', () => {
+  before(() => {
+    ensureAccount(ACCOUNT_SID);
+    const broadcast = { notificationSid: BROADCAST_SID, broadcastId: 'b1', custom: true };
+    addMessage(ACCOUNT_SID, sent('ada', { ...broadcast, phone: '+14155550100' }));
+    addMessage(ACCOUNT_SID, sent('bob', { ...broadcast, phone: '+14155550101' }));
+    addMessage(ACCOUNT_SID, sent('cy', { notificationSid: SINGLE_SID, phone: '+14155550102' }));
+  });
+
+  after(() => {
+    getStorage().close();
+    fs.rmSync(TEMP_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it('matches a broadcast recipient by notification SID and number', () => {
+    const updated = applyStatusCallback({
+      accountSid: ACCOUNT_SID,
+      notificationSid: BROADCAST_SID,
+      to: '+14155550101',
+      status: 'delivered',
+    });
+    assert.equal(updated?.id, 'bob');
+    assert.equal(getMessage(ACCOUNT_SID, 'bob')?.status, 'delivered');
+    assert.equal(getMessage(ACCOUNT_SID, 'ada')?.status, 'sent');
+  });
+
+  it('ignores a broadcast callback whose recipient matches no message', () => {
+    assert.equal(
+      applyStatusCallback({
+        accountSid: ACCOUNT_SID,
+        notificationSid: BROADCAST_SID,
+        status: 'failed',
+      }),
+      null
+    );
+    assert.equal(
+      applyStatusCallback({
+        accountSid: ACCOUNT_SID,
+        notificationSid: BROADCAST_SID,
+        to: '+14155550199',
+        status: 'failed',
+      }),
+      null
+    );
+    assert.equal(getMessage(ACCOUNT_SID, 'ada')?.status, 'sent');
+  });
+
+  it('matches a single message by notification SID alone', () => {
+    const updated = applyStatusCallback({
+      accountSid: ACCOUNT_SID,
+      notificationSid: SINGLE_SID,
+      status: 'delivered',
+    });
+    assert.equal(updated?.id, 'cy');
+  });
+});
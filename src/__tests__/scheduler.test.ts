@@ -0,0 +1,82 @@
+import { TEMP_DATA_DIR } from './temp-storage';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import { after, before, describe, it } from 'node:test';
+import { getStorage } from '../storage';
+import { addContact, addMessage, ensureAccount, getMessage, updateSettings } from '../store';
+import { processDueMessages } from '../scheduler';
+import { ScheduledMessage } from '../types';
+
+const ACCOUNT_SID = 'AC0123456789abcdef0123456789abcdef';
+const HOUR = 60 * 60 * 1000;
+
+function ago(ms: number): Date {
+  return new Date(Date.now() - ms);
+}
+
+// HH:MM in UTC, the contact's zone
+function clock(date: Date): string {
+  return date.toISOString().substring(11, 16);
+}
+
+function oneOff(id: string, fields: Partial<ScheduledMessage>): ScheduledMessage {
+  return {
+    id,
+    contactId: 'c1',
+    contactName: 'Ada',
+    phone: '+14155550100',
+    messageBody: 'Hello',
+    scheduledFor: new Date().toISOString(),
+    status: 'scheduled',
+    createdAt: ago(24 * HOUR).toISOString(),
+    year: new Date().getUTCFullYear(),
+    custom: true,
+    ...fields,
+  };
+}
+
+describe('processDueMessages catch-up', () => {
+  before(() => {
+    ensureAccount(ACCOUNT_SID);
+    addContact(ACCOUNT_SID, {
+      id: 'c1',
+      name: 'Ada',
+      phone: '+14155550100',
+      birthday: '12-10',
+      birthdayFull: '1990-12-10',
+      timeZone: 'UTC',
+      createdAt: ago(24 * HOUR).toISOString(),
+    });
+  });
+
+  after(() => {
+    getStorage().close();
+    fs.rmSync(TEMP_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it('sends a message deferred by a quiet window longer than catchUpHours', async () => {
+    // A 14-hour window that ended a minute ago; catchUpHours is the default 12
+    const windowEnd = ago(60 * 1000);
+    const windowStart = ago(14 * HOUR);
+    updateSettings(ACCOUNT_SID, {
+      quietHours: { start: clock(windowStart), end: clock(windowEnd) },
+    });
+    addMessage(
+      ACCOUNT_SID,
+      oneOff('deferred', {
+        scheduledFor: windowEnd.toISOString(),
+        deferredFrom: ago(13 * HOUR).toISOString(),
+        deferralReason: 'Quiet hours',
+      })
+    );
+    addMessage(ACCOUNT_SID, oneOff('overdue', { scheduledFor: ago(13 * HOUR).toISOString() }));
+
+    await processDueMessages();
+
+    // Not missed: it waits for credentials to send
+    assert.equal(getMessage(ACCOUNT_SID, 'deferred')?.status, 'scheduled');
+    assert.ok(getMessage(ACCOUNT_SID, 'deferred')?.pendingReason);
+    // Left unsent by downtime for longer than catchUpHours
+    assert.equal(getMessage(ACCOUNT_SID, 'overdue')?.status, 'missed');
+  });
+});
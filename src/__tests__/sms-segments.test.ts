@@ -0,0 +1,158 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { TRIAL_PREFIX, analyzeSms, analyzeTrialSms, isGsmCharacter } from '../sms-segments';
+
+const CYRILLIC = 'я'; // not in GSM 03.38: forces UCS-2, one code unit
+const EMOJI = '😀'; // outside the BMP: a surrogate pair, two code units
+
+describe('analyzeSms encoding', () => {
+  it('uses GSM-7 when every character is in the GSM tables', () => {
+    const analysis = analyzeSms('Happy birthday, Zoé! @£$¥ €[]');
+    assert.equal(analysis.encoding, 'GSM-7');
+    assert.deepEqual(analysis.ucs2Characters, []);
+  });
+
+  it('falls back to UCS-2 for the whole message on one other character', () => {
+    const analysis = analyzeSms(`Happy birthday ${CYRILLIC}`);
+    assert.equal(analysis.encoding, 'UCS-2');
+    assert.equal(analysis.units, 16);
+    assert.deepEqual(analysis.ucs2Characters, [CYRILLIC]);
+  });
+
+  it('lists each UCS-2 character once', () => {
+    assert.deepEqual(analyzeSms(`ç${EMOJI}ç${EMOJI}`).ucs2Characters, ['ç', EMOJI]);
+  });
+
+  it('tells GSM lookalikes apart', () => {
+    assert.equal(isGsmCharacter('Ç'), true);
+    assert.equal(isGsmCharacter('ç'), false);
+    assert.equal(isGsmCharacter('€'), true);
+    assert.equal(isGsmCharacter('`'), false);
+  });
+
+  it('has no segments for an empty message', () => {
+    const analysis = analyzeSms('');
+    assert.equal(analysis.segmentCount, 0);
+    assert.equal(analysis.units, 0);
+  });
+});
+
+describe('analyzeSms GSM-7 segments', () => {
+  it('fits 160 characters in one segment', () => {
+    const analysis = analyzeSms('a'.repeat(160));
+    assert.equal(analysis.segmentCount, 1);
+    assert.equal(analysis.unitsPerSegment, 160);
+  });
+
+  it('splits 161 characters into segments of 153', () => {
+    const analysis = analyzeSms('a'.repeat(161));
+    assert.equal(analysis.segmentCount, 2);
+    assert.equal(analysis.unitsPerSegment, 153);
+    assert.deepEqual(
+      analysis.segments.map((s) => s.units),
+      [153, 8]
+    );
+  });
+
+  it('fits 306 characters in two segments and needs three for 307', () => {
+    assert.equal(analyzeSms('a'.repeat(306)).segmentCount, 2);
+    assert.equal(analyzeSms('a'.repeat(307)).segmentCount, 3);
+  });
+
+  it('counts extension characters as two septets', () => {
+    const analysis = analyzeSms('€'.repeat(80));
+    assert.equal(analysis.characters, 80);
+    assert.equal(analysis.units, 160);
+    assert.equal(analysis.segmentCount, 1);
+    assert.deepEqual(analysis.extendedCharacters, ['€']);
+  });
+
+  it('needs a second segment when an extension character passes 160 septets', () => {
+    const analysis = analyzeSms('a'.repeat(159) + '^');
+    assert.equal(analysis.units, 161);
+    assert.equal(analysis.segmentCount, 2);
+  });
+
+  it('never splits an escape sequence across segments', () => {
+    const text = 'a'.repeat(152) + '{' + 'a'.repeat(10);
+    const analysis = analyzeSms(text);
+    assert.deepEqual(
+      analysis.segments.map((s) => s.units),
+      [152, 12]
+    );
+    assert.equal(analysis.segments[1].text, '{' + 'a'.repeat(10));
+  });
+});
+
+describe('analyzeSms UCS-2 segments', () => {
+  it('fits 70 characters in one segment', () => {
+    const analysis = analyzeSms(CYRILLIC.repeat(70));
+    assert.equal(analysis.segmentCount, 1);
+    assert.equal(analysis.unitsPerSegment, 70);
+  });
+
+  it('splits 71 characters into segments of 67', () => {
+    const analysis = analyzeSms(CYRILLIC.repeat(71));
+    assert.equal(analysis.segmentCount, 2);
+    assert.equal(analysis.unitsPerSegment, 67);
+    assert.deepEqual(
+      analysis.segments.map((s) => s.units),
+      [67, 4]
+    );
+  });
+
+  it('fits 134 characters in two segments and needs three for 135', () => {
+    assert.equal(analyzeSms(CYRILLIC.repeat(134)).segmentCount, 2);
+    assert.equal(analyzeSms(CYRILLIC.repeat(135)).segmentCount, 3);
+  });
+
+  it('counts a surrogate pair as two code units but one character', () => {
+    const analysis = analyzeSms(EMOJI.repeat(35));
+    assert.equal(analysis.characters, 35);
+    assert.equal(analysis.units, 70);
+    assert.equal(analysis.segmentCount, 1);
+  });
+
+  it('never splits a surrogate pair across segments', () => {
+    const text = CYRILLIC.repeat(66) + EMOJI + CYRILLIC.repeat(5);
+    const analysis = analyzeSms(text);
+    assert.deepEqual(
+      analysis.segments.map((s) => s.units),
+      [66, 7]
+    );
+    assert.equal(analysis.segments[0].text, CYRILLIC.repeat(66));
+    assert.equal(analysis.segments[1].text, EMOJI + CYRILLIC.repeat(5));
+  });
+
+  it('gives segment offsets that cover the message', () => {
+    const text = `${EMOJI} ${'b'.repeat(100)} ${EMOJI}`;
+    const analysis = analyzeSms(text);
+    assert.equal(analysis.segments[0].start, 0);
+    assert.equal(analysis.segments[analysis.segments.length - 1].end, text.length);
+    assert.equal(analysis.segments.map((s) => s.text).join(''), text);
+  });
+});
+
+describe('analyzeTrialSms', () => {
+  const room = 160 - TRIAL_PREFIX.length;
+
+  it('counts the trial-account prefix', () => {
+    const analysis = analyzeTrialSms('Hi');
+    assert.equal(analysis.characters, TRIAL_PREFIX.length + 2);
+    assert.equal(analysis.segments[0].text.startsWith(TRIAL_PREFIX), true);
+  });
+
+  it('pushes a message that fits alone into a second segment', () => {
+    const text = 'a'.repeat(room + 1);
+    assert.equal(analyzeSms(text).segmentCount, 1);
+    assert.equal(analyzeTrialSms(text).segmentCount, 2);
+    assert.equal(analyzeTrialSms('a'.repeat(room)).segmentCount, 1);
+  });
+
+  it('shares the message encoding with the prefix', () => {
+    const analysis = analyzeTrialSms(CYRILLIC);
+    assert.equal(analysis.encoding, 'UCS-2');
+    assert.equal(analysis.segmentCount, 1);
+    assert.equal(analysis.units, TRIAL_PREFIX.length + 1);
+  });
+});
@@ -0,0 +1,14 @@
+/**
+ * Points the store at a throwaway SQLite file. Import it before anything
+ * that reads the store, so tests never touch data/.
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export const TEMP_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'birthday-sms-test-'));
+
+process.env.STORAGE_BACKEND = 'sqlite';
+process.env.SQLITE_FILE = path.join(TEMP_DATA_DIR, 'app-data.sqlite');
+// No vault: the scheduler finds no credentials and leaves due messages pending
+delete process.env.CREDENTIAL_VAULT_KEY;
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { zonedTimeToUtc } from '../timezone';
+
+function utc(year: number, month: number, day: number, hour: number, minute: number): string {
+  return zonedTimeToUtc(year, month, day, hour, minute, 'UTC').toISOString();
+}
+
+describe('zonedTimeToUtc', () => {
+  it('converts an ordinary wall-clock time', () => {
+    assert.equal(
+      zonedTimeToUtc(2025, 7, 1, 9, 0, 'America/New_York').toISOString(),
+      '2025-07-01T13:00:00.000Z'
+    );
+    assert.equal(utc(2025, 7, 1, 9, 0), '2025-07-01T09:00:00.000Z');
+  });
+
+  it('resolves a repeated fall-back time to the first occurrence east of UTC', () => {
+    assert.equal(
+      zonedTimeToUtc(2025, 10, 26, 2, 30, 'Europe/Berlin').toISOString(),
+      '2025-10-26T00:30:00.000Z'
+    );
+    assert.equal(
+      zonedTimeToUtc(2025, 4, 6, 2, 30, 'Australia/Sydney').toISOString(),
+      '2025-04-05T15:30:00.000Z'
+    );
+  });
+
+  it('resolves a repeated fall-back time to the first occurrence west of UTC', () => {
+    assert.equal(
+      zonedTimeToUtc(2025, 11, 2, 1, 30, 'America/New_York').toISOString(),
+      '2025-11-02T05:30:00.000Z'
+    );
+  });
+
+  it('moves a time skipped by spring-forward later by the gap', () => {
+    // 02:30 does not exist; 03:30 EDT
+    assert.equal(
+      zonedTimeToUtc(2025, 3, 9, 2, 30, 'America/New_York').toISOString(),
+      '2025-03-09T07:30:00.000Z'
+    );
+    // 02:30 does not exist; 03:30 CEST
+    assert.equal(
+      zonedTimeToUtc(2025, 3, 30, 2, 30, 'Europe/Berlin').toISOString(),
+      '2025-03-30T01:30:00.000Z'
+    );
+  });
+});
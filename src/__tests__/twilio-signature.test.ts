@@ -0,0 +1,180 @@
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import express from 'express';
+import {
+  computeTwilioSignature,
+  createTwilioWebhookGuard,
+  isValidTwilioSignature,
+  TwilioWebhookGuardOptions,
+} from '../twilio-signature';
+
+// Twilio's published example (also used by the twilio-node test suite)
+const TWILIO_SAMPLE = {
+  authToken: '12345',
+  url: 'https://mycompany.com/myapp.php?foo=1&bar=2',
+  params: {
+    CallSid: 'CA1234567890ABCDE',
+    Caller: '+12349013030',
+    Digits: '1234',
+    From: '+12349013030',
+    To: '+18005551212',
+  },
+  signature: '0/KCTR6DLpKmkAf8muzZqo1nDgQ=',
+};
+
+// A delivery status callback as Twilio posts it to PUBLIC_BASE_URL
+const AUTH_TOKEN = '0123456789abcdef0123456789abcdef';
+const ACCOUNT_SID = 'AC0123456789abcdef0123456789abcdef';
+const STATUS_CALLBACK = {
+  publicBaseUrl: 'https://buzz.example.com',
+  path: '/webhooks/status?messageId=3f2b9c1e',
+  params: {
+    AccountSid: ACCOUNT_SID,
+    MessageSid: 'SM0123456789abcdef0123456789abcdef',
+    MessageStatus: 'delivered',
+    To: '+14155550100',
+  },
+  signature: 'OT7y39nfmG92vDLteRe8emZZcC4=',
+};
+
+describe('computeTwilioSignature', () => {
+  it("matches Twilio's sample signature", () => {
+    const { authToken, url, params, signature } = TWILIO_SAMPLE;
+    assert.equal(computeTwilioSignature(authToken, url, params), signature);
+  });
+
+  it('matches a recorded status callback', () => {
+    const { publicBaseUrl, path, params, signature } = STATUS_CALLBACK;
+    assert.equal(computeTwilioSignature(AUTH_TOKEN, publicBaseUrl + path, params), signature);
+  });
+
+  it('does not depend on parameter order', () => {
+    const { authToken, url, params, signature } = TWILIO_SAMPLE;
+    const reversed = Object.fromEntries(Object.entries(params).reverse());
+    assert.equal(computeTwilioSignature(authToken, url, reversed), signature);
+  });
+});
+
+describe('isValidTwilioSignature', () => {
+  const { authToken, url, params, signature } = TWILIO_SAMPLE;
+
+  it('accepts the sample signature', () => {
+    assert.equal(isValidTwilioSignature(authToken, signature, url, params), true);
+  });
+
+  it('rejects a tampered parameter', () => {
+    assert.equal(
+      isValidTwilioSignature(authToken, signature, url, { ...params, Digits: '9999' }),
+      false
+    );
+  });
+
+  it('rejects an added parameter', () => {
+    assert.equal(
+      isValidTwilioSignature(authToken, signature, url, { ...params, Extra: '1' }),
+      false
+    );
+  });
+
+  it('rejects a tampered URL', () => {
+    assert.equal(
+      isValidTwilioSignature(authToken, signature, url.replace('foo=1', 'foo=2'), params),
+      false
+    );
+  });
+
+  it('rejects a different auth token', () => {
+    assert.equal(isValidTwilioSignature('54321', signature, url, params), false);
+  });
+
+  it('rejects a truncated signature', () => {
+    assert.equal(isValidTwilioSignature(authToken, signature.slice(0, -2), url, params), false);
+  });
+});
+
+describe('createTwilioWebhookGuard', () => {
+  let server: ReturnType<express.Express['listen']>;
+  let localBaseUrl: string;
+  let guardOptions: TwilioWebhookGuardOptions;
+
+  before(async () => {
+    const app = express();
+    app.use(express.urlencoded({ extended: false }));
+    app.use('/webhooks', (req, res, next) => createTwilioWebhookGuard(guardOptions)(req, res, next));
+    app.post('/webhooks/status', (_req, res) => {
+      res.json({ ok: true });
+    });
+    await new Promise<void>((resolve) => {
+      server = app.listen(0, '127.0.0.1', resolve);
+    });
+    localBaseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  function tokens(accountSid: string): string | undefined {
+    return accountSid === ACCOUNT_SID ? AUTH_TOKEN : undefined;
+  }
+
+  async function post(params: Record<string, string>, signature?: string): Promise<number> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    };
+    if (signature !== undefined) headers['X-Twilio-Signature'] = signature;
+    const response = await fetch(localBaseUrl + STATUS_CALLBACK.path, {
+      method: 'POST',
+      headers,
+      body: new URLSearchParams(params).toString(),
+    });
+    return response.status;
+  }
+
+  it('accepts a callback signed for the URL it was posted to', async () => {
+    guardOptions = { getAuthToken: tokens };
+    const { path, params } = STATUS_CALLBACK;
+    const signature = computeTwilioSignature(AUTH_TOKEN, localBaseUrl + path, params);
+    assert.equal(await post(params, signature), 200);
+  });
+
+  it('rejects a tampered body', async () => {
+    guardOptions = { getAuthToken: tokens };
+    const { path, params } = STATUS_CALLBACK;
+    const signature = computeTwilioSignature(AUTH_TOKEN, localBaseUrl + path, params);
+    assert.equal(await post({ ...params, MessageStatus: 'failed' }, signature), 403);
+  });
+
+  it('rejects a missing signature', async () => {
+    guardOptions = { getAuthToken: tokens };
+    assert.equal(await post(STATUS_CALLBACK.params), 403);
+  });
+
+  it('rejects an account with no known auth token', async () => {
+    guardOptions = { getAuthToken: tokens };
+    const params = { ...STATUS_CALLBACK.params, AccountSid: 'AC' + 'f'.repeat(32) };
+    const signature = computeTwilioSignature(AUTH_TOKEN, localBaseUrl + STATUS_CALLBACK.path, params);
+    assert.equal(await post(params, signature), 403);
+  });
+
+  it('behind a proxy, accepts a callback signed for PUBLIC_BASE_URL', async () => {
+    guardOptions = { getAuthToken: tokens, publicBaseUrl: STATUS_CALLBACK.publicBaseUrl };
+    assert.equal(await post(STATUS_CALLBACK.params, STATUS_CALLBACK.signature), 200);
+  });
+
+  it('accepts PUBLIC_BASE_URL with a trailing slash', async () => {
+    guardOptions = { getAuthToken: tokens, publicBaseUrl: `${STATUS_CALLBACK.publicBaseUrl}/` };
+    assert.equal(await post(STATUS_CALLBACK.params, STATUS_CALLBACK.signature), 200);
+  });
+
+  it('behind a proxy, rejects the public signature when PUBLIC_BASE_URL is not set', async () => {
+    guardOptions = { getAuthToken: tokens };
+    assert.equal(await post(STATUS_CALLBACK.params, STATUS_CALLBACK.signature), 403);
+  });
+
+  it('rejects a callback signed for a different public host', async () => {
+    guardOptions = { getAuthToken: tokens, publicBaseUrl: 'https://other.example.com' };
+    assert.equal(await post(STATUS_CALLBACK.params, STATUS_CALLBACK.signature), 403);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Crash-safe file helpers for the JSON store: atomic replace, a lock file
+ * so only one process writes, and timestamped snapshots.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Writes to a temp file, flushes it to disk, then renames it over the
+ * target. A crash leaves either the old file or the new one, never half.
+ */
+export function writeFileAtomicSync(file: string, contents: string, mode?: number): void {
+  const temp = `${file}.${process.pid}.tmp`;
+  const fd = fs.openSync(temp, 'w', mode);
+  try {
+    fs.writeSync(fd, contents, null, 'utf-8');
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(temp, file);
+}
+
+// ─── Lock file ───────────────────────────────────────────────────
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM means it exists but belongs to someone else
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Claims `${file}.lock` for this process. A lock left by a process that
+ * no longer runs is taken over; a live one is an error.
+ */
+export function acquireLock(file: string): () => void {
+  const lockFile = `${file}.lock`;
+  try {
+    fs.writeFileSync(lockFile, String(process.pid), { flag: 'wx' });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+    const owner = parseInt(fs.readFileSync(lockFile, 'utf-8'), 10);
+    if (!isNaN(owner) && owner !== process.pid && isProcessAlive(owner)) {
+      throw new Error(
+        `${file} is in use by process ${owner}. Stop it first, or delete ${lockFile} if that process is not this app.`
+      );
+    }
+    // Our own pid here is a restart that reused it, e.g. pid 1 in a container
+    if (owner !== process.pid) {
+      console.warn(`Taking over stale lock ${lockFile} (process ${owner} is gone).`);
+    }
+    fs.writeFileSync(lockFile, String(process.pid));
+  }
+
+  return () => {
+    try {
+      if (fs.readFileSync(lockFile, 'utf-8') === String(process.pid)) {
+        fs.unlinkSync(lockFile);
+      }
+    } catch {
+      // Already gone
+    }
+  };
+}
+
+// ─── Snapshots ───────────────────────────────────────────────────
+
+// app-data.json → app-data-2024-05-01T09-00-00-000Z.json
+function snapshotName(file: string, date: Date): string {
+  const { name, ext } = path.parse(file);
+  return `${name}-${date.toISOString().replace(/[:.]/g, '-')}${ext}`;
+}
+
+/** Snapshot paths for the file in `dir`, newest first. */
+export function listSnapshots(file: string, dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  const { name, ext } = path.parse(file);
+  const pattern = new RegExp(`^${name}-\\d{4}-\\d{2}-\\d{2}T[\\d-]+Z${ext.replace('.', '\\.')}$`);
+  return fs
+    .readdirSync(dir)
+    .filter((entry) => pattern.test(entry))
+    .sort()
+    .reverse()
+    .map((entry) => path.join(dir, entry));
+}
+
+/** Saves contents as a new snapshot and deletes all but the newest `keep`. */
+export function writeSnapshot(file: string, dir: string, contents: string, keep: number): void {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  writeFileAtomicSync(path.join(dir, snapshotName(file, new Date())), contents);
+  for (const old of listSnapshots(file, dir).slice(keep)) {
+    fs.unlinkSync(old);
+  }
+}
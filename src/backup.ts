@@ -0,0 +1,485 @@
+/**
+ * Versioned account backups and restore with conflict handling.
+ *
+ * A backup holds one account's partition of AppData; other accounts on the
+ * same server are never included. Archives are validated against the
+ * schema before anything is written.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { isE164 } from './phone';
+import { OCCASION_TYPES, messageOccasionId } from './occasions';
+import { settleInterruptedSend } from './send-recovery';
+import { parseSettingsUpdate } from './settings';
+import { getAccountData, setAccountData } from './store';
+import { isValidTimeZone, parseSendTime } from './timezone';
+import {
+  AccountData,
+  AccountSettings,
+  Contact,
+  InboundMessage,
+  MessageStatus,
+  MessageTemplate,
+  OccasionType,
+  ScheduledMessage,
+  TemplateMode,
+} from './types';
+
+export const BACKUP_FORMAT = 'birthday-sms-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  accountSid: string; // account the backup was taken from
+  data: AccountData;
+}
+
+// What to do with a backed-up record that already exists here
+export type ConflictStrategy = 'skip' | 'overwrite' | 'merge';
+
+// How backed-up contacts are matched against existing ones
+export type ContactMatchKey = 'id' | 'phone';
+
+export interface RestoreCounts {
+  added: number;
+  skipped: number;
+  overwritten: number;
+  merged: number;
+}
+
+export interface RestoreReport {
+  contacts: RestoreCounts;
+  templates: RestoreCounts;
+  messages: { added: number; skipped: number };
+  inbound: { added: number; skipped: number };
+  settings: 'kept' | 'replaced' | 'merged';
+  contactIds: string[]; // contacts added or changed, to be rescheduled
+}
+
+const MESSAGE_STATUSES: MessageStatus[] = [
+  'scheduled',
+  'sending',
+  'sent',
+  'delivered',
+  'failed',
+  'missed',
+  'cancelled',
+];
+
+const TEMPLATE_MODES: TemplateMode[] = ['random', 'fixed'];
+
+// Stop listing problems after this many; the archive is rejected either way
+const MAX_ERRORS = 20;
+
+export function createBackup(accountSid: string): BackupArchive {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    accountSid,
+    data: getAccountData(accountSid),
+  };
+}
+
+// ─── Validation ──────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function contactErrors(c: unknown, where: string): string[] {
+  if (!isRecord(c)) return [`${where} is not an object.`];
+  const errors: string[] = [];
+  if (!isString(c.id)) errors.push(`${where}.id is missing.`);
+  if (!isString(c.name)) errors.push(`${where}.name is missing.`);
+  if (!isString(c.phone) || !isE164(c.phone)) {
+    errors.push(`${where}.phone must be an E.164 number.`);
+  }
+  if (!isString(c.birthday) || !/^\d{2}-\d{2}$/.test(c.birthday)) {
+    errors.push(`${where}.birthday must be MM-DD.`);
+  }
+  if (!isString(c.birthdayFull) || !/^\d{4}-\d{2}-\d{2}$/.test(c.birthdayFull)) {
+    errors.push(`${where}.birthdayFull must be YYYY-MM-DD.`);
+  }
+  if (c.timeZone !== undefined && (!isString(c.timeZone) || !isValidTimeZone(c.timeZone))) {
+    errors.push(`${where}.timeZone "${String(c.timeZone)}" is not a valid IANA time zone.`);
+  }
+  errors.push(...scheduleFieldErrors(c, where));
+  if (c.groups !== undefined && (!Array.isArray(c.groups) || !c.groups.every(isString))) {
+    errors.push(`${where}.groups must be an array of group names.`);
+  }
+  if (c.occasions !== undefined) {
+    if (!Array.isArray(c.occasions)) {
+      errors.push(`${where}.occasions must be an array.`);
+    } else {
+      c.occasions.forEach((o, i) => errors.push(...occasionErrors(o, `${where}.occasions[${i}]`)));
+    }
+  }
+  return errors;
+}
+
+function occasionErrors(o: unknown, where: string): string[] {
+  if (!isRecord(o)) return [`${where} is not an object.`];
+  const errors: string[] = [];
+  if (!isString(o.id)) errors.push(`${where}.id is missing.`);
+  if (!OCCASION_TYPES.includes(o.type as OccasionType)) {
+    errors.push(`${where}.type "${String(o.type)}" is not a known occasion type.`);
+  }
+  if (o.type !== 'birthday' && (!isString(o.date) || !/^\d{2}-\d{2}$/.test(o.date))) {
+    errors.push(`${where}.date must be MM-DD.`);
+  }
+  errors.push(...scheduleFieldErrors(o, where));
+  return errors;
+}
+
+// sendTime and templateMode, which contacts and occasions both have
+function scheduleFieldErrors(record: Record<string, unknown>, where: string): string[] {
+  const errors: string[] = [];
+  if (
+    record.sendTime !== undefined &&
+    (typeof record.sendTime !== 'string' || !parseSendTime(record.sendTime))
+  ) {
+    errors.push(`${where}.sendTime must be HH:MM (24-hour).`);
+  }
+  if (
+    record.templateMode !== undefined &&
+    !TEMPLATE_MODES.includes(record.templateMode as TemplateMode)
+  ) {
+    errors.push(`${where}.templateMode must be "random" or "fixed".`);
+  }
+  return errors;
+}
+
+function messageErrors(m: unknown, where: string): string[] {
+  if (!isRecord(m)) return [`${where} is not an object.`];
+  const errors: string[] = [];
+  for (const field of ['id', 'contactId', 'phone', 'messageBody']) {
+    if (!isString(m[field])) errors.push(`${where}.${field} is missing.`);
+  }
+  if (!isString(m.scheduledFor) || isNaN(Date.parse(m.scheduledFor))) {
+    errors.push(`${where}.scheduledFor must be an ISO date-time.`);
+  }
+  if (!MESSAGE_STATUSES.includes(m.status as MessageStatus)) {
+    errors.push(`${where}.status "${String(m.status)}" is not a known status.`);
+  }
+  if (!Number.isInteger(m.year)) errors.push(`${where}.year must be an integer.`);
+  return errors;
+}
+
+function inboundErrors(m: unknown, where: string): string[] {
+  if (!isRecord(m)) return [`${where} is not an object.`];
+  const errors: string[] = [];
+  for (const field of ['id', 'from', 'body']) {
+    if (!isString(m[field])) errors.push(`${where}.${field} is missing.`);
+  }
+  if (!isString(m.receivedAt) || isNaN(Date.parse(m.receivedAt))) {
+    errors.push(`${where}.receivedAt must be an ISO date-time.`);
+  }
+  return errors;
+}
+
+function templateErrors(t: unknown, where: string): string[] {
+  if (!isRecord(t)) return [`${where} is not an object.`];
+  const errors: string[] = [];
+  for (const field of ['id', 'name', 'body']) {
+    if (!isString(t[field])) errors.push(`${where}.${field} is missing.`);
+  }
+  return errors;
+}
+
+/** Problems that make the archive unusable; empty when it can be restored. */
+export function validateBackup(raw: unknown): string[] {
+  if (!isRecord(raw) || raw.format !== BACKUP_FORMAT) {
+    return [`Not a backup archive (expected format "${BACKUP_FORMAT}").`];
+  }
+  if (!Number.isInteger(raw.version) || (raw.version as number) < 1) {
+    return ['Backup version is missing.'];
+  }
+  if ((raw.version as number) > BACKUP_VERSION) {
+    return [
+      `Backup version ${raw.version} is newer than this server supports (${BACKUP_VERSION}).`,
+    ];
+  }
+  if (!isString(raw.accountSid)) return ['Backup accountSid is missing.'];
+  const data = raw.data;
+  if (!isRecord(data) || !Array.isArray(data.contacts) || !Array.isArray(data.messages)) {
+    return ['Backup data must contain contacts and messages arrays.'];
+  }
+  if (data.templates !== undefined && !Array.isArray(data.templates)) {
+    return ['Backup templates must be an array.'];
+  }
+  if (data.inbound !== undefined && !Array.isArray(data.inbound)) {
+    return ['Backup inbound messages must be an array.'];
+  }
+  if (data.settings !== undefined && !isRecord(data.settings)) {
+    return ['Backup settings must be an object.'];
+  }
+  if (data.settings !== undefined) {
+    const parsed = parseSettingsUpdate(data.settings);
+    if ('error' in parsed) return [`Backup settings: ${parsed.error}`];
+  }
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  data.contacts.forEach((c, i) => {
+    errors.push(...contactErrors(c, `contacts[${i}]`));
+    if (isRecord(c) && isString(c.id)) {
+      if (ids.has(c.id)) errors.push(`contacts[${i}].id "${c.id}" appears twice.`);
+      ids.add(c.id);
+    }
+  });
+  data.messages.forEach((m, i) => errors.push(...messageErrors(m, `messages[${i}]`)));
+  (data.inbound || []).forEach((m: unknown, i: number) =>
+    errors.push(...inboundErrors(m, `inbound[${i}]`))
+  );
+  (data.templates || []).forEach((t: unknown, i: number) =>
+    errors.push(...templateErrors(t, `templates[${i}]`))
+  );
+  return errors.slice(0, MAX_ERRORS);
+}
+
+// ─── Restore ─────────────────────────────────────────────────────
+
+function emptyCounts(): RestoreCounts {
+  return { added: 0, skipped: 0, overwritten: 0, merged: 0 };
+}
+
+// Incoming fields win; fields only the existing record has are kept
+function mergeRecords<T extends object>(existing: T, incoming: T): T {
+  const defined = Object.fromEntries(
+    Object.entries(incoming).filter(([, value]) => value !== undefined)
+  );
+  return { ...existing, ...defined };
+}
+
+function restoreContacts(
+  current: Contact[],
+  incoming: Contact[],
+  strategy: ConflictStrategy,
+  matchBy: ContactMatchKey,
+  report: RestoreReport,
+  idMap: Map<string, string>,
+  kept: Set<string>
+): Contact[] {
+  const contacts = [...current];
+  for (const contact of incoming) {
+    const idx = contacts.findIndex((c) =>
+      matchBy === 'id' ? c.id === contact.id : c.phone === contact.phone
+    );
+
+    if (idx === -1) {
+      // Matching by id: a new contact must not duplicate another's number;
+      // its history follows the contact that has the number here
+      const phoneOwner = matchBy === 'id' && contacts.find((c) => c.phone === contact.phone);
+      if (phoneOwner) {
+        idMap.set(contact.id, phoneOwner.id);
+        kept.add(contact.id);
+        report.contacts.skipped++;
+        continue;
+      }
+      // Matching by phone: an unrelated contact may already use the id
+      const id = contacts.some((c) => c.id === contact.id) ? uuidv4() : contact.id;
+      contacts.push({ ...contact, id });
+      idMap.set(contact.id, id);
+      report.contacts.added++;
+      report.contactIds.push(id);
+      continue;
+    }
+
+    const existing = contacts[idx];
+    idMap.set(contact.id, existing.id);
+    if (strategy === 'skip') {
+      kept.add(contact.id);
+      report.contacts.skipped++;
+      continue;
+    }
+    contacts[idx] =
+      strategy === 'overwrite'
+        ? { ...contact, id: existing.id }
+        : { ...mergeRecords(existing, contact), id: existing.id };
+    report.contacts[strategy === 'overwrite' ? 'overwritten' : 'merged']++;
+    report.contactIds.push(existing.id);
+  }
+  return contacts;
+}
+
+function restoreTemplates(
+  current: MessageTemplate[],
+  incoming: MessageTemplate[],
+  strategy: ConflictStrategy,
+  report: RestoreReport
+): MessageTemplate[] {
+  const templates = [...current];
+  for (const template of incoming) {
+    const idx = templates.findIndex((t) => t.id === template.id);
+    if (idx === -1) {
+      templates.push(template);
+      report.templates.added++;
+    } else if (strategy === 'skip') {
+      report.templates.skipped++;
+    } else if (strategy === 'overwrite') {
+      templates[idx] = template;
+      report.templates.overwritten++;
+    } else {
+      templates[idx] = mergeRecords(templates[idx], template);
+      report.templates.merged++;
+    }
+  }
+  return templates;
+}
+
+function restoreMessages(
+  current: ScheduledMessage[],
+  incoming: ScheduledMessage[],
+  report: RestoreReport,
+  idMap: Map<string, string>,
+  kept: Set<string>
+): ScheduledMessage[] {
+  const messages = [...current];
+  const ids = new Set(current.map((m) => m.id));
+  for (const message of incoming) {
+    const contactId = idMap.get(message.contactId) || message.contactId;
+    const occasionId = messageOccasionId(message);
+    // Occasion greetings are one per occasion per year; one-off, broadcast
+    // and reply messages are only ever duplicates of themselves
+    const pendingGreeting =
+      occasionId !== undefined &&
+      (message.status === 'scheduled' || message.status === 'sending');
+    // History is append-only; pending greetings must not double up with
+    // what is already scheduled for the contact here
+    const duplicate =
+      ids.has(message.id) ||
+      (pendingGreeting && kept.has(message.contactId)) ||
+      (pendingGreeting &&
+        messages.some(
+          (m) =>
+            m.contactId === contactId &&
+            messageOccasionId(m) === occasionId &&
+            m.year === message.year &&
+            (m.status === 'scheduled' || m.status === 'sending')
+        ));
+    if (duplicate) {
+      report.messages.skipped++;
+      continue;
+    }
+    // A send interrupted when the backup was taken may have gone out: only
+    // one that certainly never reached Twilio is scheduled again
+    messages.push({
+      ...message,
+      ...(message.status === 'sending' ? settleInterruptedSend(message).updates : {}),
+      contactId,
+    });
+    ids.add(message.id);
+    report.messages.added++;
+  }
+  return messages;
+}
+
+// Replies are history: added unless already here, linked to the restored contact
+function restoreInbound(
+  current: InboundMessage[],
+  incoming: InboundMessage[],
+  report: RestoreReport,
+  idMap: Map<string, string>
+): InboundMessage[] {
+  const inbound = [...current];
+  const ids = new Set(current.map((m) => m.id));
+  for (const message of incoming) {
+    if (ids.has(message.id)) {
+      report.inbound.skipped++;
+      continue;
+    }
+    inbound.push({
+      ...message,
+      contactId: message.contactId && (idMap.get(message.contactId) || message.contactId),
+    });
+    ids.add(message.id);
+    report.inbound.added++;
+  }
+  return inbound;
+}
+
+export function restoreBackup(
+  accountSid: string,
+  archive: BackupArchive,
+  strategy: ConflictStrategy,
+  matchBy: ContactMatchKey
+): RestoreReport {
+  const current = getAccountData(accountSid);
+  const report: RestoreReport = {
+    contacts: emptyCounts(),
+    templates: emptyCounts(),
+    messages: { added: 0, skipped: 0 },
+    inbound: { added: 0, skipped: 0 },
+    settings: 'kept',
+    contactIds: [],
+  };
+
+  // Notify bindings belong to the account that created them
+  const sameAccount = archive.accountSid === accountSid;
+  const incomingContacts = sameAccount
+    ? archive.data.contacts
+    : archive.data.contacts.map((c) => ({ ...c, bindingSid: undefined }));
+
+  const idMap = new Map<string, string>(); // backup contact id → id here
+  const kept = new Set<string>(); // backup contact ids left as they are here
+  const contacts = restoreContacts(
+    current.contacts,
+    incomingContacts,
+    strategy,
+    matchBy,
+    report,
+    idMap,
+    kept
+  );
+  const templates = restoreTemplates(
+    current.templates || [],
+    archive.data.templates || [],
+    strategy,
+    report
+  );
+  const messages = restoreMessages(
+    current.messages,
+    archive.data.messages,
+    report,
+    idMap,
+    kept
+  );
+  const inbound = restoreInbound(
+    current.inbound || [],
+    archive.data.inbound || [],
+    report,
+    idMap
+  );
+
+  // Normalised as PATCH /api/settings would; validateBackup refused bad values
+  const parsed = archive.data.settings && parseSettingsUpdate({ ...archive.data.settings });
+  const incomingSettings = parsed && 'updates' in parsed ? parsed.updates : undefined;
+  let settings: Partial<AccountSettings> | undefined = current.settings;
+  if (incomingSettings) {
+    if (!current.settings || strategy === 'overwrite') {
+      settings = incomingSettings;
+      report.settings = 'replaced';
+    } else if (strategy === 'merge') {
+      settings = { ...current.settings, ...incomingSettings };
+      report.settings = 'merged';
+    }
+  }
+
+  setAccountData(accountSid, {
+    ...current,
+    contacts,
+    messages,
+    inbound,
+    templates,
+    settings,
+    notifyServiceSid:
+      current.notifyServiceSid || (sameAccount ? archive.data.notifyServiceSid : undefined),
+  });
+  return report;
+}
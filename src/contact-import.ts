@@ -0,0 +1,288 @@
+/**
+ * Bulk contact import from CSV and vCard.
+ *
+ * Every row goes through the same checks as POST /api/contacts and comes
+ * back in a per-row report. Nothing is written here; the caller decides
+ * whether to commit the rows marked "created".
+ */
+import { buildContact, parseBirthday, phoneWarning, validateName } from './contacts';
+import { validateAndFormatPhone } from './phone';
+import { getContacts, getSettings } from './store';
+import { Contact } from './types';
+
+export type ImportFormat = 'csv' | 'vcard';
+
+// CSV header names for each contact field
+export interface CsvColumnMapping {
+  name: string;
+  phone: string;
+  birthday: string;
+}
+
+export const DEFAULT_CSV_MAPPING: CsvColumnMapping = {
+  name: 'name',
+  phone: 'phone',
+  birthday: 'birthday',
+};
+
+export type ImportRowStatus = 'created' | 'duplicate' | 'invalid';
+
+export interface ImportRow {
+  row: number; // 1-based data row (CSV) or card number (vCard)
+  name?: string;
+  phone?: string;
+  birthday?: string;
+  status: ImportRowStatus;
+  reason?: string;
+  warning?: string;
+  contactId?: string;
+}
+
+export interface ImportResult {
+  rows: ImportRow[];
+  contacts: Contact[]; // contacts for the "created" rows, not yet stored
+}
+
+interface RawContact {
+  name: string;
+  phone: string;
+  birthday: string;
+}
+
+// ─── CSV ─────────────────────────────────────────────────────────
+
+/** Parses RFC 4180 CSV: quoted fields, doubled quotes, CRLF or LF. */
+export function parseCsv(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  // Spreadsheet exports often start with a byte order mark
+  const text = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field.length > 0 || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Skip blank lines
+  return records.filter((r) => r.some((f) => f.trim().length > 0));
+}
+
+function csvRows(
+  content: string,
+  mapping: CsvColumnMapping
+): RawContact[] | { error: string } {
+  const [header, ...records] = parseCsv(content);
+  if (!header) {
+    return { error: 'CSV file is empty.' };
+  }
+
+  const columns = header.map((h) => h.trim().toLowerCase());
+  const index = (column: string) => columns.indexOf(column.trim().toLowerCase());
+  const missing = (Object.keys(mapping) as (keyof CsvColumnMapping)[]).filter(
+    (field) => index(mapping[field]) === -1
+  );
+  if (missing.length > 0) {
+    return {
+      error: `CSV header has no column for ${missing
+        .map((field) => `${field} ("${mapping[field]}")`)
+        .join(', ')}.`,
+    };
+  }
+
+  const nameCol = index(mapping.name);
+  const phoneCol = index(mapping.phone);
+  const birthdayCol = index(mapping.birthday);
+  return records.map((record) => ({
+    name: (record[nameCol] || '').trim(),
+    phone: (record[phoneCol] || '').trim(),
+    birthday: (record[birthdayCol] || '').trim(),
+  }));
+}
+
+// ─── vCard ───────────────────────────────────────────────────────
+
+interface VCardProperty {
+  name: string;
+  params: string[];
+  value: string;
+}
+
+function unescapeVCard(value: string): string {
+  return value.replace(/\\([\\,;nN])/g, (_, c: string) =>
+    c === 'n' || c === 'N' ? '\n' : c
+  );
+}
+
+/** Splits a .vcf file into cards, each a list of unfolded properties. */
+export function parseVCards(content: string): VCardProperty[][] {
+  // Continuation lines start with a space or tab (RFC 6350 §3.2)
+  const lines = content.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+  const cards: VCardProperty[][] = [];
+  let current: VCardProperty[] | null = null;
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    const [rawName, ...params] = line.substring(0, colon).split(';');
+    // Drop any group prefix, e.g. "item1.TEL"
+    const name = rawName.replace(/^.*\./, '').toUpperCase();
+    const value = line.substring(colon + 1).trim();
+
+    if (name === 'BEGIN' && value.toUpperCase() === 'VCARD') {
+      current = [];
+    } else if (name === 'END' && value.toUpperCase() === 'VCARD') {
+      if (current) cards.push(current);
+      current = null;
+    } else if (current) {
+      current.push({ name, params: params.map((p) => p.toUpperCase()), value });
+    }
+  }
+  return cards;
+}
+
+// Converts vCard BDAY forms (YYYY-MM-DD, YYYYMMDD, with or without a time)
+// to YYYY-MM-DD; yearless dates (--MMDD) are passed through to fail validation
+function normalizeVCardBirthday(value: string): string {
+  const date = value.split('T')[0];
+  const basic = date.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (basic) return `${basic[1]}-${basic[2]}-${basic[3]}`;
+  return date;
+}
+
+function vcardRows(content: string): RawContact[] | { error: string } {
+  const cards = parseVCards(content);
+  if (cards.length === 0) {
+    return { error: 'No BEGIN:VCARD ... END:VCARD entries found.' };
+  }
+
+  return cards.map((card) => {
+    const get = (name: string) => card.find((p) => p.name === name);
+
+    let name = get('FN') ? unescapeVCard(get('FN')!.value) : '';
+    if (!name && get('N')) {
+      // N is Family;Given;Additional;Prefix;Suffix
+      const [family, given] = get('N')!.value.split(';').map(unescapeVCard);
+      name = [given, family].filter(Boolean).join(' ');
+    }
+
+    // Prefer a mobile number when the card has several
+    const phones = card.filter((p) => p.name === 'TEL');
+    const tel =
+      phones.find((p) => p.params.some((param) => /CELL/.test(param))) || phones[0];
+    const phone = tel ? tel.value.replace(/^tel:/i, '') : '';
+
+    const bday = get('BDAY');
+    return {
+      name: name.trim(),
+      phone: phone.trim(),
+      birthday: bday ? normalizeVCardBirthday(bday.value) : '',
+    };
+  });
+}
+
+// ─── Validation ──────────────────────────────────────────────────
+
+export function prepareImport(
+  accountSid: string,
+  format: ImportFormat,
+  content: string,
+  mapping: CsvColumnMapping = DEFAULT_CSV_MAPPING
+): ImportResult | { error: string } {
+  const raw = format === 'csv' ? csvRows(content, mapping) : vcardRows(content);
+  if ('error' in raw) return raw;
+
+  const { defaultRegion } = getSettings(accountSid);
+  const existing = new Map(getContacts(accountSid).map((c) => [c.phone, c.name]));
+  const seen = new Map<string, number>();
+
+  const rows: ImportRow[] = [];
+  const contacts: Contact[] = [];
+  raw.forEach((fields, i) => {
+    const row: ImportRow = {
+      row: i + 1,
+      name: fields.name || undefined,
+      phone: fields.phone || undefined,
+      birthday: fields.birthday || undefined,
+      status: 'invalid',
+    };
+    rows.push(row);
+
+    if (!fields.name || !fields.phone || !fields.birthday) {
+      row.reason = 'Name, phone, and birthday are required.';
+      return;
+    }
+
+    const nameError = validateName(fields.name);
+    if (nameError) {
+      row.reason = nameError;
+      return;
+    }
+
+    const phoneResult = validateAndFormatPhone(fields.phone, defaultRegion);
+    if (!phoneResult.valid || !phoneResult.formatted) {
+      row.reason = phoneResult.error || 'Invalid phone number.';
+      return;
+    }
+    row.phone = phoneResult.formatted;
+
+    const bday = parseBirthday(fields.birthday);
+    if ('error' in bday) {
+      row.reason = bday.error;
+      return;
+    }
+
+    const existingName = existing.get(phoneResult.formatted);
+    if (existingName !== undefined) {
+      row.status = 'duplicate';
+      row.reason = `A contact with this phone number already exists (${existingName}).`;
+      return;
+    }
+    const earlierRow = seen.get(phoneResult.formatted);
+    if (earlierRow !== undefined) {
+      row.status = 'duplicate';
+      row.reason = `Same phone number as row ${earlierRow}.`;
+      return;
+    }
+    seen.set(phoneResult.formatted, row.row);
+
+    const contact = buildContact({
+      name: fields.name,
+      phone: { ...phoneResult, formatted: phoneResult.formatted },
+      birthday: bday,
+    });
+    contacts.push(contact);
+    row.status = 'created';
+    row.contactId = contact.id;
+    row.warning = phoneWarning(phoneResult);
+  });
+
+  return { rows, contacts };
+}
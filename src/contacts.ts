@@ -0,0 +1,110 @@
+/**
+ * Contact field validation shared by the contact routes and bulk import.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { daysInMonth } from './scheduler';
+import { PhoneValidationResult } from './phone';
+import { getServerTimeZone } from './timezone';
+import { BIRTHDAY_OCCASION_ID } from './occasions';
+import { Contact, TemplateMode } from './types';
+
+// Returns an error message, or null when the name is acceptable
+export function validateName(name: string): string | null {
+  if (name.length === 0 || name.length > 100) {
+    return 'Name must be 1-100 characters.';
+  }
+  return null;
+}
+
+// Parses a YYYY-MM-DD birthday into the stored MM-DD and full forms
+export function parseBirthday(
+  value: string
+): { birthday: string; birthdayFull: string } | { error: string } {
+  const bdayMatch = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!bdayMatch) {
+    return { error: 'Birthday must be in YYYY-MM-DD format.' };
+  }
+
+  const year = parseInt(bdayMatch[1], 10);
+  const month = parseInt(bdayMatch[2], 10);
+  const day = parseInt(bdayMatch[3], 10);
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) {
+    return { error: `Invalid birthday date: ${value} does not exist.` };
+  }
+
+  return {
+    birthday: `${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`,
+    birthdayFull: value,
+  };
+}
+
+/**
+ * Parses an occasion date: YYYY-MM-DD when the first year is known (for
+ * {{years}}), or MM-DD when it is not.
+ */
+export function parseOccasionDate(
+  value: string
+): { date: string; dateFull?: string } | { error: string } {
+  const monthDay = value.match(/^(\d{2})-(\d{2})$/);
+  if (monthDay) {
+    const month = parseInt(monthDay[1], 10);
+    const day = parseInt(monthDay[2], 10);
+    // 2000 is a leap year, so 02-29 is accepted
+    if (month < 1 || month > 12 || day < 1 || day > daysInMonth(2000, month)) {
+      return { error: `Invalid date: ${value} does not exist.` };
+    }
+    return { date: value };
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return { error: 'Date must be in YYYY-MM-DD or MM-DD format.' };
+  }
+  const full = parseBirthday(value);
+  if ('error' in full) {
+    return { error: `Invalid date: ${value} does not exist.` };
+  }
+  return { date: full.birthday, dateFull: full.birthdayFull };
+}
+
+export function phoneWarning(result: PhoneValidationResult): string | undefined {
+  return result.smsCapable === false
+    ? `This looks like a ${result.numberType?.replace(/_/g, ' ')} number, which cannot receive SMS.`
+    : undefined;
+}
+
+export interface NewContactFields {
+  name: string;
+  phone: PhoneValidationResult & { formatted: string };
+  birthday: { birthday: string; birthdayFull: string };
+  timeZone?: string;
+  sendTime?: string;
+  templateMode?: TemplateMode;
+  templateId?: string;
+  groups?: string[];
+}
+
+/** A new contact from already-validated fields, with the usual defaults. */
+export function buildContact(fields: NewContactFields): Contact {
+  return {
+    id: uuidv4(),
+    name: fields.name,
+    phone: fields.phone.formatted,
+    birthday: fields.birthday.birthday,
+    birthdayFull: fields.birthday.birthdayFull,
+    country: fields.phone.country,
+    numberType: fields.phone.numberType,
+    smsCapable: fields.phone.smsCapable,
+    timeZone: fields.timeZone || fields.phone.timeZone || getServerTimeZone(),
+    sendTime: fields.sendTime,
+    occasions: [
+      {
+        id: BIRTHDAY_OCCASION_ID,
+        type: 'birthday',
+        templateMode: fields.templateMode || 'random',
+        templateId: fields.templateId,
+      },
+    ],
+    groups: fields.groups?.length ? fields.groups : undefined,
+    createdAt: new Date().toISOString(),
+  };
+}
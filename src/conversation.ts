@@ -0,0 +1,81 @@
+/**
+ * Inbound SMS replies and the per-contact conversation: what we sent and
+ * what they replied, in time order.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import {
+  addInboundMessage,
+  findContactByPhone,
+  getInboundMessages,
+  getMessages,
+} from './store';
+import { InboundMessage, MessageStatus } from './types';
+
+export interface ConversationEntry {
+  id: string;
+  direction: 'outbound' | 'inbound';
+  body: string;
+  at: string; // when it was sent or received
+  status?: MessageStatus; // outbound only
+  errorMessage?: string; // outbound only
+  reply?: boolean; // outbound sent from the conversation
+  read?: boolean; // inbound only
+}
+
+// Twilio's limit for one message body
+export const MAX_REPLY_LENGTH = 1600;
+
+// Outbound messages that never left are not part of the conversation
+const UNSENT: MessageStatus[] = ['scheduled', 'missed', 'cancelled'];
+
+/** Stores an inbound SMS, linked to the contact with the sender's number if any. */
+export function recordInboundSms(
+  accountSid: string,
+  fields: { from: string; to?: string; body: string; messageSid?: string }
+): InboundMessage {
+  const contact = findContactByPhone(accountSid, fields.from);
+  const message: InboundMessage = {
+    id: uuidv4(),
+    contactId: contact?.id,
+    from: fields.from,
+    to: fields.to,
+    body: fields.body,
+    messageSid: fields.messageSid,
+    receivedAt: new Date().toISOString(),
+  };
+  addInboundMessage(accountSid, message);
+  return message;
+}
+
+export function getConversation(accountSid: string, contactId: string): ConversationEntry[] {
+  const outbound: ConversationEntry[] = getMessages(accountSid, { contactId })
+    .filter((m) => !UNSENT.includes(m.status))
+    .map((m) => ({
+      id: m.id,
+      direction: 'outbound',
+      body: m.messageBody,
+      at: m.sentAt || m.sendAttemptedAt || m.scheduledFor,
+      status: m.status,
+      errorMessage: m.errorMessage,
+      reply: m.reply,
+    }));
+  const inbound: ConversationEntry[] = getInboundMessages(accountSid, { contactId }).map((m) => ({
+    id: m.id,
+    direction: 'inbound',
+    body: m.body,
+    at: m.receivedAt,
+    read: Boolean(m.readAt),
+  }));
+  return [...outbound, ...inbound].sort(
+    (a, b) => new Date(a.at).getTime() - new Date(b.at).getTime()
+  );
+}
+
+/** Unread replies per contact. Messages from unknown numbers are not counted. */
+export function getUnreadCounts(accountSid: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const m of getInboundMessages(accountSid, { unread: true })) {
+    if (m.contactId) counts.set(m.contactId, (counts.get(m.contactId) || 0) + 1);
+  }
+  return counts;
+}
@@ -0,0 +1,115 @@
+/**
+ * Encrypted at-rest store for per-account Twilio credentials, so the
+ * scheduler can send on behalf of an account when nobody is logged in.
+ *
+ * Credentials are sealed with AES-256-GCM using a key derived from the
+ * CREDENTIAL_VAULT_KEY environment variable. Without that variable the
+ * vault is disabled and nothing is written to disk.
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeFileAtomicSync } from './atomic-file';
+import { SessionCredentials } from './types';
+
+const VAULT_FILE = path.join(__dirname, '..', 'data', 'credentials.json');
+const KEY_SALT = 'birthday-sms-credential-vault';
+
+interface SealedEntry {
+  iv: string; // base64
+  tag: string; // base64
+  data: string; // base64 ciphertext
+}
+
+type VaultFile = Record<string, SealedEntry>; // keyed by Account SID
+
+// scrypt is deliberately slow and the key is needed on every tick and webhook
+let derivedKey: { secret: string; key: Buffer } | undefined;
+
+function getKey(): Buffer | null {
+  const secret = process.env.CREDENTIAL_VAULT_KEY;
+  if (!secret) return null;
+  if (derivedKey?.secret === secret) return derivedKey.key;
+  // Accept a raw 32-byte hex key, otherwise derive one from the passphrase
+  const key = /^[0-9a-fA-F]{64}$/.test(secret)
+    ? Buffer.from(secret, 'hex')
+    : crypto.scryptSync(secret, KEY_SALT, 32);
+  derivedKey = { secret, key };
+  return key;
+}
+
+export function isVaultEnabled(): boolean {
+  return getKey() !== null;
+}
+
+function readVault(): VaultFile {
+  if (!fs.existsSync(VAULT_FILE)) return {};
+  try {
+    return JSON.parse(fs.readFileSync(VAULT_FILE, 'utf-8')) as VaultFile;
+  } catch (error) {
+    // Unreadable vault: accounts fall back to live sessions until their next login rewrites it
+    console.error(`Could not read credential vault ${VAULT_FILE}:`, error);
+    return {};
+  }
+}
+
+function writeVault(vault: VaultFile): void {
+  const dir = path.dirname(VAULT_FILE);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  writeFileAtomicSync(VAULT_FILE, JSON.stringify(vault, null, 2), 0o600);
+}
+
+function seal(key: Buffer, creds: SessionCredentials): SealedEntry {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(creds), 'utf-8'),
+    cipher.final(),
+  ]);
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+function unseal(key: Buffer, entry: SealedEntry): SessionCredentials {
+  const decipher = crypto.createDecipheriv(
+    'aes-256-gcm',
+    key,
+    Buffer.from(entry.iv, 'base64')
+  );
+  decipher.setAuthTag(Buffer.from(entry.tag, 'base64'));
+  const plain = Buffer.concat([
+    decipher.update(Buffer.from(entry.data, 'base64')),
+    decipher.final(),
+  ]);
+  return JSON.parse(plain.toString('utf-8')) as SessionCredentials;
+}
+
+export function storeCredentials(creds: SessionCredentials): boolean {
+  const key = getKey();
+  if (!key) return false;
+  const vault = readVault();
+  vault[creds.accountSid] = seal(key, creds);
+  writeVault(vault);
+  return true;
+}
+
+export function getStoredCredentials(
+  accountSid: string
+): SessionCredentials | undefined {
+  const key = getKey();
+  if (!key) return undefined;
+  const entry = readVault()[accountSid];
+  if (!entry) return undefined;
+  try {
+    return unseal(key, entry);
+  } catch (error) {
+    // Wrong key or tampered entry: treat as missing rather than crash the scheduler
+    console.error(`Could not decrypt stored credentials for ${accountSid}:`, error);
+    return undefined;
+  }
+}
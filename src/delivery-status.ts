@@ -0,0 +1,197 @@
+/**
+ * Delivery status callbacks from Twilio Notify / Messaging.
+ * Maps raw carrier statuses onto the ScheduledMessage lifecycle.
+ */
+import { findMessageBySid, getMessage, getMessages, updateMessage } from './store';
+import { DeliveryEvent, MessageStatus, ScheduledMessage } from './types';
+
+export interface StatusCallback {
+  accountSid?: string;
+  notificationSid?: string;
+  messageSid?: string;
+  messageId?: string; // our record id, from the callback URL
+  broadcastId?: string; // from the callback URL of a broadcast
+  to?: string; // recipient number
+  identity?: string; // Notify binding identity, our contact id
+  status: string;
+  errorCode?: number;
+}
+
+// How far along the lifecycle each status is; callbacks can arrive out of order
+const STATUS_RANK: Partial<Record<MessageStatus, number>> = {
+  scheduled: 0,
+  sending: 1,
+  sent: 2,
+  delivered: 3,
+  failed: 3,
+};
+
+function mapTwilioStatus(status: string): MessageStatus | undefined {
+  switch (status) {
+    case 'accepted':
+    case 'queued':
+    case 'sending':
+      return 'sending';
+    case 'sent':
+      return 'sent';
+    case 'delivered':
+    case 'read':
+      return 'delivered';
+    case 'undelivered':
+    case 'failed':
+      return 'failed';
+    default:
+      return undefined;
+  }
+}
+
+export function parseStatusCallback(
+  body: Record<string, string | undefined>,
+  query: Record<string, unknown> = {}
+): StatusCallback | null {
+  const status = (
+    body.MessageStatus ||
+    body.SmsStatus ||
+    body.DeliveryState ||
+    body.Status ||
+    ''
+  ).toLowerCase();
+  const notificationSid = body.NotificationSid;
+  const messageSid = body.MessageSid || body.SmsSid;
+  const messageId = typeof query.messageId === 'string' ? query.messageId : undefined;
+  const broadcastId = typeof query.broadcastId === 'string' ? query.broadcastId : undefined;
+
+  if (!status || (!notificationSid && !messageSid && !messageId && !broadcastId)) return null;
+
+  const errorCode = body.ErrorCode ? parseInt(body.ErrorCode, 10) : undefined;
+  return {
+    accountSid: body.AccountSid,
+    notificationSid,
+    messageSid,
+    messageId,
+    broadcastId,
+    to: body.To,
+    identity: body.Identity,
+    status,
+    errorCode: errorCode !== undefined && !isNaN(errorCode) ? errorCode : undefined,
+  };
+}
+
+// Callbacks for sends whose SID was never stored carry our message id
+function findByMessageId(
+  callback: StatusCallback
+): { accountSid: string; message: ScheduledMessage } | undefined {
+  if (!callback.messageId || !callback.accountSid) return undefined;
+  const message = getMessage(callback.accountSid, callback.messageId);
+  return message && { accountSid: callback.accountSid, message };
+}
+
+// A broadcast is one notification for many messages, so its SID alone
+// cannot tell them apart; the recipient can
+function findBroadcastRecipient(
+  callback: StatusCallback
+): { accountSid: string; message: ScheduledMessage } | undefined {
+  if (!callback.broadcastId || !callback.accountSid) return undefined;
+  if (!callback.to && !callback.identity) return undefined;
+  const message = getMessages(callback.accountSid).find(
+    (m) =>
+      m.broadcastId === callback.broadcastId &&
+      (m.phone === callback.to || m.contactId === callback.identity)
+  );
+  return message && { accountSid: callback.accountSid, message };
+}
+
+// A callback URL without a broadcastId still carries the notification SID;
+// for a broadcast that SID is shared, so the recipient has to settle it
+function findByNotificationSid(
+  callback: StatusCallback
+): { accountSid: string; message: ScheduledMessage } | undefined {
+  if (!callback.notificationSid || callback.broadcastId) return undefined;
+  const match = findMessageBySid(callback.notificationSid, callback.accountSid);
+  if (!match || !match.message.broadcastId) return match;
+  const recipients = getMessages(match.accountSid).filter(
+    (m) =>
+      m.notificationSid === callback.notificationSid &&
+      ((callback.to && m.phone === callback.to) ||
+        (callback.identity && m.contactId === callback.identity))
+  );
+  // Ignored rather than guessed when the recipient does not pick out one message
+  return recipients.length === 1
+    ? { accountSid: match.accountSid, message: recipients[0] }
+    : undefined;
+}
+
+/**
+ * Record a status callback against the matching message.
+ * Returns the updated message, or null if no message matches.
+ */
+export function applyStatusCallback(
+  callback: StatusCallback
+): ScheduledMessage | null {
+  const match =
+    findBroadcastRecipient(callback) ||
+    findByNotificationSid(callback) ||
+    (callback.messageSid &&
+      findMessageBySid(callback.messageSid, callback.accountSid)) ||
+    findByMessageId(callback) ||
+    undefined;
+  if (!match) return null;
+
+  const { accountSid, message } = match;
+  const now = new Date().toISOString();
+  const event: DeliveryEvent = { status: callback.status, at: now };
+  if (callback.errorCode !== undefined) event.errorCode = callback.errorCode;
+
+  const updates: Partial<ScheduledMessage> = {
+    deliveryEvents: [...(message.deliveryEvents || []), event],
+  };
+  if (callback.messageSid && !message.messageSid) {
+    updates.messageSid = callback.messageSid;
+  }
+  if (callback.notificationSid && !message.notificationSid) {
+    updates.notificationSid = callback.notificationSid;
+  }
+
+  // A send cut off by a restart was failed without knowing whether it went
+  // out, and a retry is queued after an error that may have hidden a
+  // success; Twilio reporting on either settles that
+  const interrupted =
+    (message.status === 'failed' && message.sendInterrupted) ||
+    (message.status === 'scheduled' && message.retryPending);
+  let next = mapTwilioStatus(callback.status);
+  if (interrupted && next === 'sending') next = 'sent';
+  const currentRank = interrupted ? STATUS_RANK.sending : STATUS_RANK[message.status];
+  const nextRank = next ? STATUS_RANK[next] : undefined;
+  const isTerminal =
+    !interrupted && (message.status === 'delivered' || message.status === 'failed');
+
+  if (
+    next &&
+    !isTerminal &&
+    currentRank !== undefined &&
+    nextRank !== undefined &&
+    nextRank > currentRank
+  ) {
+    updates.status = next;
+    if (interrupted) {
+      updates.sendInterrupted = undefined;
+      updates.retryPending = undefined;
+      updates.errorMessage = undefined;
+      updates.errorCode = undefined;
+    }
+    if (next === 'sent' && !message.sentAt) {
+      const lastAttempt = message.attempts?.[message.attempts.length - 1];
+      updates.sentAt = message.sendAttemptedAt || lastAttempt?.at || now;
+    } else if (next === 'delivered') {
+      updates.deliveredAt = now;
+    } else if (next === 'failed') {
+      updates.errorCode = callback.errorCode;
+      updates.errorMessage =
+        `Carrier reported ${callback.status}` +
+        (callback.errorCode !== undefined ? ` (error ${callback.errorCode})` : '');
+    }
+  }
+
+  updateMessage(accountSid, message.id, updates);
+  return { ...message, ...updates };
+}
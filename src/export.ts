@@ -0,0 +1,93 @@
+/**
+ * Contact and message history exports.
+ * The contact CSV uses the same column names as the bulk import defaults,
+ * so an export can be imported again without a mapping.
+ */
+import { Contact, ScheduledMessage } from './types';
+
+// ─── CSV ─────────────────────────────────────────────────────────
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: (string | number | undefined)[][]): string {
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+export function contactsToCsv(contacts: Contact[]): string {
+  return toCsv(
+    ['name', 'phone', 'birthday', 'timeZone', 'sendTime', 'country', 'createdAt'],
+    contacts.map((c) => [
+      c.name,
+      c.phone,
+      c.birthdayFull,
+      c.timeZone,
+      c.sendTime,
+      c.country,
+      c.createdAt,
+    ])
+  );
+}
+
+export function messagesToCsv(messages: ScheduledMessage[]): string {
+  return toCsv(
+    [
+      'id',
+      'contactName',
+      'phone',
+      'status',
+      'scheduledFor',
+      'sentAt',
+      'deliveredAt',
+      'errorCode',
+      'errorMessage',
+      'notificationSid',
+      'messageBody',
+    ],
+    messages.map((m) => [
+      m.id,
+      m.contactName,
+      m.phone,
+      m.status,
+      m.scheduledFor,
+      m.sentAt,
+      m.deliveredAt,
+      m.errorCode,
+      m.errorMessage,
+      m.notificationSid,
+      m.messageBody,
+    ])
+  );
+}
+
+// ─── vCard ───────────────────────────────────────────────────────
+
+function escapeVCard(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;');
+}
+
+/** vCard 3.0, one card per contact. */
+export function contactsToVCard(contacts: Contact[]): string {
+  return contacts
+    .map((c) => {
+      const parts = c.name.trim().split(/\s+/);
+      const family = parts.length > 1 ? parts.pop()! : '';
+      return [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        `FN:${escapeVCard(c.name)}`,
+        `N:${escapeVCard(family)};${escapeVCard(parts.join(' '))};;;`,
+        `TEL;TYPE=CELL:${c.phone}`,
+        `BDAY:${c.birthdayFull}`,
+        'END:VCARD',
+        '',
+      ].join('\r\n');
+    })
+    .join('');
+}
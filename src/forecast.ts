@@ -0,0 +1,122 @@
+/**
+ * Month-by-month projection of SMS volume and spend.
+ *
+ * Combines messages already scheduled with each contact's upcoming
+ * occasions that have no message yet. Unscheduled occasions assume the
+ * longest template in the occasion's pool, so estimates err on the high side.
+ */
+import { getContacts, getMessages, getSettings } from './store';
+import {
+  getBirthdayDateForYear,
+  getContactScheduleOptions,
+  getTemplatePool,
+  renderForContact,
+  templateOccasion,
+} from './scheduler';
+import { getOccasions, messageOccasionId, occasionDate } from './occasions';
+import { estimateMessageCost, getSegmentPrice, monthKey } from './pricing';
+import { analyzeSms } from './sms-segments';
+
+export interface ForecastMonth {
+  month: string; // YYYY-MM (UTC)
+  messages: number;
+  segments: number;
+  cost: number; // USD
+  budget?: number;
+  overBudget: boolean;
+}
+
+export interface Forecast {
+  currency: 'USD';
+  months: ForecastMonth[];
+  totals: { messages: number; segments: number; cost: number };
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+export function buildForecast(
+  accountSid: string,
+  monthCount = 12,
+  from = new Date()
+): Forecast {
+  const settings = getSettings(accountSid);
+  const messages = getMessages(accountSid);
+
+  const months: ForecastMonth[] = [];
+  for (let i = 0; i < monthCount; i++) {
+    const date = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + i, 1));
+    months.push({
+      month: monthKey(date),
+      messages: 0,
+      segments: 0,
+      cost: 0,
+      budget: settings.monthlyBudget,
+      overBudget: false,
+    });
+  }
+  const byMonth = new Map(months.map((m) => [m.month, m]));
+
+  const add = (when: Date, segments: number, cost: number) => {
+    if (when < from) return;
+    const bucket = byMonth.get(monthKey(when));
+    if (!bucket) return;
+    bucket.messages++;
+    bucket.segments += segments;
+    bucket.cost += cost;
+  };
+
+  for (const msg of messages) {
+    if (msg.status !== 'scheduled') continue;
+    const { segments, cost } = estimateMessageCost(settings, msg.phone, msg.messageBody);
+    add(new Date(msg.scheduledFor), segments, cost);
+  }
+
+  // Occasions in the window that have no message record yet
+  const firstYear = from.getUTCFullYear();
+  const lastYear = firstYear + Math.ceil(monthCount / 12);
+  for (const contact of getContacts(accountSid)) {
+    if (contact.optedOut) continue;
+    for (const occasion of getOccasions(contact)) {
+      const options = getContactScheduleOptions(accountSid, contact, occasion);
+      const { date } = occasionDate(contact, occasion);
+      const templateValues = templateOccasion(contact, occasion);
+      for (let year = firstYear; year <= lastYear; year++) {
+        const covered = messages.some(
+          (m) =>
+            m.contactId === contact.id &&
+            messageOccasionId(m) === occasion.id &&
+            m.year === year &&
+            m.status !== 'cancelled'
+        );
+        if (covered) continue;
+
+        const segments = Math.max(
+          ...getTemplatePool(accountSid, occasion, occasion.type).map(
+            (body) =>
+              analyzeSms(renderForContact(accountSid, contact, body, year, templateValues))
+                .segmentCount
+          )
+        );
+        const cost = segments * getSegmentPrice(settings, contact.phone);
+        add(getBirthdayDateForYear(date, year, options), segments, cost);
+      }
+    }
+  }
+
+  for (const month of months) {
+    month.cost = roundCost(month.cost);
+    month.overBudget = month.budget !== undefined && month.cost > month.budget;
+  }
+
+  return {
+    currency: 'USD',
+    months,
+    totals: {
+      messages: months.reduce((sum, m) => sum + m.messages, 0),
+      segments: months.reduce((sum, m) => sum + m.segments, 0),
+      cost: roundCost(months.reduce((sum, m) => sum + m.cost, 0)),
+    },
+  };
+}
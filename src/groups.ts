@@ -0,0 +1,154 @@
+/**
+ * Contact groups (e.g. "family") and broadcasts to them.
+ *
+ * A contact's Notify binding is tagged with their groups as well as the
+ * types of their occasions, so one notification targeted at a group's tag
+ * reaches every member. Notify reserves the tag "all", and a group named
+ * after an occasion type would also reach everyone with that occasion, so
+ * neither can be a group name.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { addMessage, getContacts, transaction, updateContact, updateMessage } from './store';
+import { OCCASION_TYPES, getOccasions } from './occasions';
+import { createSmsBinding, sendBroadcast, toSendAttempt } from './sms-service';
+import { Contact, ScheduledMessage, TwilioClientBundle } from './types';
+
+// Notify allows 20 tags per binding and occasion types can take four
+export const MAX_GROUPS = 16;
+
+const GROUP_NAME = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+const RESERVED_NAMES = new Set<string>(['all', ...OCCASION_TYPES]);
+
+/** Lower-cased, de-duplicated group names, or an error message. */
+export function parseGroups(value: unknown): { groups: string[] } | { error: string } {
+  if (!Array.isArray(value)) {
+    return { error: 'groups must be an array of group names.' };
+  }
+  const groups = Array.from(new Set(value.map((g) => String(g).trim().toLowerCase())));
+  for (const group of groups) {
+    if (!GROUP_NAME.test(group)) {
+      return {
+        error: `Invalid group name "${group}": use up to 32 letters, digits, "-" or "_".`,
+      };
+    }
+    if (RESERVED_NAMES.has(group)) {
+      return { error: `"${group}" is reserved and cannot be used as a group name.` };
+    }
+  }
+  if (groups.length > MAX_GROUPS) {
+    return { error: `A contact can be in at most ${MAX_GROUPS} groups.` };
+  }
+  return { groups };
+}
+
+/** Notify binding tags for a contact: the kinds of occasion they have and their groups. */
+export function bindingTags(contact: Contact): string[] {
+  const occasionTypes = new Set(getOccasions(contact).map((o) => o.type));
+  return [...occasionTypes, ...(contact.groups || [])];
+}
+
+export function getGroupMembers(accountSid: string, group: string): Contact[] {
+  return getContacts(accountSid).filter((c) => c.groups?.includes(group));
+}
+
+export interface GroupSummary {
+  name: string;
+  members: number;
+  optedOut: number; // members a broadcast will not reach
+}
+
+export function listGroups(accountSid: string): GroupSummary[] {
+  const groups = new Map<string, GroupSummary>();
+  for (const contact of getContacts(accountSid)) {
+    for (const name of contact.groups || []) {
+      const summary = groups.get(name) || { name, members: 0, optedOut: 0 };
+      summary.members++;
+      if (contact.optedOut) summary.optedOut++;
+      groups.set(name, summary);
+    }
+  }
+  return Array.from(groups.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export interface BroadcastResult {
+  broadcastId: string;
+  group: string;
+  success: boolean;
+  error?: string;
+  errorCode?: number;
+  messages: ScheduledMessage[]; // one per recipient
+}
+
+/**
+ * Send one notification to a group's tag and record a message per member.
+ * Opted-out members get no record: Twilio does not text them.
+ */
+export async function broadcastToGroup(
+  accountSid: string,
+  bundle: TwilioClientBundle | undefined,
+  sessionId: string,
+  group: string,
+  body: string
+): Promise<BroadcastResult> {
+  const recipients = getGroupMembers(accountSid, group).filter((c) => !c.optedOut);
+
+  // Contacts added without a Twilio session have no binding to carry the tag
+  if (bundle) {
+    for (const contact of recipients.filter((c) => !c.bindingSid)) {
+      const bindingSid = await createSmsBinding(
+        bundle,
+        sessionId,
+        contact.id,
+        contact.phone,
+        bindingTags(contact)
+      );
+      if (bindingSid) updateContact(accountSid, contact.id, { bindingSid });
+    }
+  }
+
+  const broadcastId = uuidv4();
+  const now = new Date().toISOString();
+  const messages: ScheduledMessage[] = recipients.map((contact) => ({
+    id: uuidv4(),
+    contactId: contact.id,
+    contactName: contact.name,
+    phone: contact.phone,
+    messageBody: body,
+    scheduledFor: now,
+    status: 'sending',
+    sendAttemptedAt: now,
+    createdAt: now,
+    year: new Date().getFullYear(),
+    broadcastId,
+    broadcastGroup: group,
+  }));
+
+  // Stored before the API call so a restart mid-send can be recovered
+  transaction(() => {
+    for (const message of messages) addMessage(accountSid, message);
+  });
+
+  const result = await sendBroadcast(bundle, sessionId, group, body, broadcastId);
+
+  const attempts = [toSendAttempt(result, now)];
+  const updates: Partial<ScheduledMessage> = result.success
+    ? {
+        status: 'sent',
+        notificationSid: result.notificationSid,
+        sentAt: new Date().toISOString(),
+        attempts,
+      }
+    : { status: 'failed', errorMessage: result.error, errorCode: result.errorCode, attempts };
+  transaction(() => {
+    for (const message of messages) updateMessage(accountSid, message.id, updates);
+  });
+
+  return {
+    broadcastId,
+    group,
+    success: result.success,
+    error: result.error,
+    errorCode: result.errorCode,
+    messages: messages.map((m) => ({ ...m, ...updates })),
+  };
+}
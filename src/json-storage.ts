@@ -0,0 +1,417 @@
+/**
+ * JSON file storage: the whole AppData in one file.
+ *
+ * The file is read once and kept in memory. Changes are queued and written
+ * together at the end of the current tick (or when a transaction
+ * completes), always by replacing the file atomically. A lock file keeps
+ * other processes from writing it at the same time, and timestamped
+ * snapshots in data/backups let startup recover from a corrupt file.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { acquireLock, listSnapshots, writeFileAtomicSync, writeSnapshot } from './atomic-file';
+import {
+  InboundQuery,
+  MessageQuery,
+  StorageBackend,
+  matchesInboundQuery,
+  matchesQuery,
+} from './storage';
+import {
+  AccountData,
+  AccountSettings,
+  AppData,
+  Contact,
+  InboundMessage,
+  MessageTemplate,
+  ScheduledMessage,
+} from './types';
+
+function emptyAccount(): AccountData {
+  return { contacts: [], messages: [] };
+}
+
+/**
+ * Files written before data was partitioned by account keep contacts,
+ * messages and the Notify service SID at the top level. Park them under
+ * `legacy` until the first account logs in and claims them.
+ */
+export function normalizeData(raw: Partial<AppData> & Partial<AccountData>): AppData {
+  if (raw.accounts) {
+    return raw as AppData;
+  }
+  const data: AppData = { accounts: {} };
+  if (raw.contacts || raw.messages) {
+    data.legacy = {
+      contacts: raw.contacts || [],
+      messages: raw.messages || [],
+      notifyServiceSid: raw.notifyServiceSid,
+    };
+  }
+  return data;
+}
+
+function copy<T>(value: T): T {
+  return structuredClone(value);
+}
+
+const SNAPSHOTS_KEPT = 10;
+const SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface JsonFileStorageOptions {
+  readOnly?: boolean; // no lock and no writes, e.g. for the migration tool
+}
+
+export class JsonFileStorage implements StorageBackend {
+  private data: AppData;
+  private depth = 0;
+  private dirty = false;
+  private flushQueued = false;
+  private lastSnapshotAt = 0;
+  private readonly snapshotDir: string;
+  private readonly readOnly: boolean;
+  private releaseLock?: () => void;
+
+  constructor(private readonly file: string, options: JsonFileStorageOptions = {}) {
+    this.readOnly = Boolean(options.readOnly);
+    this.snapshotDir = path.join(path.dirname(file), 'backups');
+    const dir = path.dirname(file);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    if (!this.readOnly) {
+      this.releaseLock = acquireLock(file);
+      // Don't lose changes queued in the last tick before a normal exit
+      process.on('exit', () => this.close());
+    }
+
+    this.data = this.read();
+    if (!this.readOnly) {
+      this.snapshot(JSON.stringify(this.data, null, 2));
+    }
+  }
+
+  private read(): AppData {
+    if (!fs.existsSync(this.file)) {
+      const data: AppData = { accounts: {} };
+      if (!this.readOnly) writeFileAtomicSync(this.file, JSON.stringify(data, null, 2));
+      return data;
+    }
+    try {
+      return normalizeData(JSON.parse(fs.readFileSync(this.file, 'utf-8')));
+    } catch (err) {
+      return this.recover(err as Error);
+    }
+  }
+
+  // Falls back to the newest snapshot that parses
+  private recover(cause: Error): AppData {
+    for (const snapshot of listSnapshots(this.file, this.snapshotDir)) {
+      let data: AppData;
+      try {
+        data = normalizeData(JSON.parse(fs.readFileSync(snapshot, 'utf-8')));
+      } catch {
+        continue;
+      }
+
+      const banner = '!'.repeat(72);
+      console.error(`\n${banner}`);
+      console.error(`  ${this.file} could not be read: ${cause.message}`);
+      console.error(`  Recovered from snapshot ${snapshot}.`);
+      console.error('  Changes made after that snapshot was taken are lost.');
+      if (!this.readOnly) {
+        const corrupt = `${this.file}.corrupt-${Date.now()}`;
+        fs.renameSync(this.file, corrupt);
+        writeFileAtomicSync(this.file, JSON.stringify(data, null, 2));
+        console.error(`  The unreadable file was kept as ${corrupt}.`);
+      }
+      console.error(`${banner}\n`);
+      return data;
+    }
+    throw new Error(
+      `${this.file} could not be read (${cause.message}) and no usable snapshot was found in ${this.snapshotDir}.`
+    );
+  }
+
+  private snapshot(contents: string): void {
+    try {
+      writeSnapshot(this.file, this.snapshotDir, contents, SNAPSHOTS_KEPT);
+      this.lastSnapshotAt = Date.now();
+    } catch (err) {
+      console.error('Could not write data snapshot:', err);
+    }
+  }
+
+  // Called after every change; the write happens once per tick
+  private save(): void {
+    if (this.readOnly) {
+      throw new Error(`${this.file} was opened read-only.`);
+    }
+    this.dirty = true;
+    if (this.depth > 0 || this.flushQueued) return;
+    this.flushQueued = true;
+    setImmediate(() => {
+      this.flushQueued = false;
+      if (this.depth === 0) this.flush();
+    });
+  }
+
+  /** Writes queued changes now. */
+  flush(): void {
+    if (!this.dirty) return;
+    this.dirty = false;
+    const contents = JSON.stringify(this.data, null, 2);
+    try {
+      writeFileAtomicSync(this.file, contents);
+    } catch (err) {
+      // Keep the changes queued for the next write
+      this.dirty = true;
+      console.error(`Failed to write ${this.file}:`, err);
+      return;
+    }
+    if (Date.now() - this.lastSnapshotAt >= SNAPSHOT_INTERVAL_MS) {
+      this.snapshot(contents);
+    }
+  }
+
+  private account(accountSid: string): AccountData {
+    return this.data.accounts[accountSid] || emptyAccount();
+  }
+
+  // The account's partition, created on first write
+  private writable(accountSid: string): AccountData {
+    if (!this.data.accounts[accountSid]) {
+      this.data.accounts[accountSid] = emptyAccount();
+    }
+    return this.data.accounts[accountSid];
+  }
+
+  transaction<T>(fn: () => T): T {
+    const before = copy(this.data);
+    const wasDirty = this.dirty;
+    this.depth++;
+    try {
+      const result = fn();
+      this.depth--;
+      if (this.depth === 0) this.flush();
+      return result;
+    } catch (err) {
+      this.depth--;
+      this.data = before;
+      this.dirty = wasDirty;
+      throw err;
+    }
+  }
+
+  close(): void {
+    if (this.readOnly) return;
+    this.flush();
+    this.releaseLock?.();
+    this.releaseLock = undefined;
+  }
+
+  // ─── Accounts ──────────────────────────────────────────────────
+
+  getAccountSids(): string[] {
+    return Object.keys(this.data.accounts);
+  }
+
+  hasAccount(accountSid: string): boolean {
+    return Boolean(this.data.accounts[accountSid]);
+  }
+
+  createAccount(accountSid: string): void {
+    if (this.hasAccount(accountSid)) return;
+    this.writable(accountSid);
+    this.save();
+  }
+
+  getAccountData(accountSid: string): AccountData {
+    return copy(this.account(accountSid));
+  }
+
+  setAccountData(accountSid: string, account: AccountData): void {
+    this.data.accounts[accountSid] = copy(account);
+    this.save();
+  }
+
+  getLegacy(): AccountData | undefined {
+    return this.data.legacy && copy(this.data.legacy);
+  }
+
+  clearLegacy(): void {
+    if (!this.data.legacy) return;
+    delete this.data.legacy;
+    this.save();
+  }
+
+  // ─── Contacts ──────────────────────────────────────────────────
+
+  getContacts(accountSid: string): Contact[] {
+    return copy(this.account(accountSid).contacts);
+  }
+
+  getContact(accountSid: string, id: string): Contact | undefined {
+    const contact = this.account(accountSid).contacts.find((c) => c.id === id);
+    return contact && copy(contact);
+  }
+
+  findContactByPhone(accountSid: string, phone: string): Contact | undefined {
+    const contact = this.account(accountSid).contacts.find((c) => c.phone === phone);
+    return contact && copy(contact);
+  }
+
+  addContacts(accountSid: string, contacts: Contact[]): void {
+    this.writable(accountSid).contacts.push(...copy(contacts));
+    this.save();
+  }
+
+  updateContact(
+    accountSid: string,
+    id: string,
+    updates: Partial<Contact>
+  ): Contact | undefined {
+    const contacts = this.account(accountSid).contacts;
+    const idx = contacts.findIndex((c) => c.id === id);
+    if (idx === -1) return undefined;
+    contacts[idx] = { ...contacts[idx], ...copy(updates) };
+    this.save();
+    return copy(contacts[idx]);
+  }
+
+  removeContact(accountSid: string, id: string): boolean {
+    const contacts = this.account(accountSid).contacts;
+    const idx = contacts.findIndex((c) => c.id === id);
+    if (idx === -1) return false;
+    contacts.splice(idx, 1);
+    this.save();
+    return true;
+  }
+
+  // ─── Messages ──────────────────────────────────────────────────
+
+  getMessages(accountSid: string, query: MessageQuery = {}): ScheduledMessage[] {
+    return copy(this.account(accountSid).messages.filter((m) => matchesQuery(m, query)));
+  }
+
+  getMessage(accountSid: string, id: string): ScheduledMessage | undefined {
+    const message = this.account(accountSid).messages.find((m) => m.id === id);
+    return message && copy(message);
+  }
+
+  addMessage(accountSid: string, message: ScheduledMessage): void {
+    this.writable(accountSid).messages.push(copy(message));
+    this.save();
+  }
+
+  updateMessage(
+    accountSid: string,
+    id: string,
+    updates: Partial<ScheduledMessage>
+  ): ScheduledMessage | undefined {
+    const account = this.data.accounts[accountSid];
+    if (!account) return undefined;
+    const idx = account.messages.findIndex((m) => m.id === id);
+    if (idx === -1) return undefined;
+    account.messages[idx] = { ...account.messages[idx], ...copy(updates) };
+    this.save();
+    return copy(account.messages[idx]);
+  }
+
+  findMessageBySid(
+    sid: string,
+    accountSid?: string
+  ): { accountSid: string; message: ScheduledMessage } | undefined {
+    const sids = accountSid ? [accountSid] : this.getAccountSids();
+    for (const sidKey of sids) {
+      const account = this.data.accounts[sidKey];
+      if (!account) continue;
+      const message = account.messages.find(
+        (m) => m.notificationSid === sid || m.messageSid === sid
+      );
+      if (message) return { accountSid: sidKey, message: copy(message) };
+    }
+    return undefined;
+  }
+
+  // ─── Inbound messages ──────────────────────────────────────────
+
+  getInboundMessages(accountSid: string, query: InboundQuery = {}): InboundMessage[] {
+    const inbound = this.account(accountSid).inbound || [];
+    return copy(inbound.filter((m) => matchesInboundQuery(m, query)));
+  }
+
+  addInboundMessage(accountSid: string, message: InboundMessage): void {
+    const account = this.writable(accountSid);
+    account.inbound = [...(account.inbound || []), copy(message)];
+    this.save();
+  }
+
+  updateInboundMessage(
+    accountSid: string,
+    id: string,
+    updates: Partial<InboundMessage>
+  ): InboundMessage | undefined {
+    const inbound = this.account(accountSid).inbound || [];
+    const idx = inbound.findIndex((m) => m.id === id);
+    if (idx === -1) return undefined;
+    inbound[idx] = { ...inbound[idx], ...copy(updates) };
+    this.save();
+    return copy(inbound[idx]);
+  }
+
+  // ─── Templates ─────────────────────────────────────────────────
+
+  getTemplates(accountSid: string): MessageTemplate[] {
+    return copy(this.account(accountSid).templates || []);
+  }
+
+  addTemplate(accountSid: string, template: MessageTemplate): void {
+    const account = this.writable(accountSid);
+    account.templates = [...(account.templates || []), copy(template)];
+    this.save();
+  }
+
+  updateTemplate(
+    accountSid: string,
+    id: string,
+    updates: Partial<MessageTemplate>
+  ): MessageTemplate | undefined {
+    const templates = this.account(accountSid).templates || [];
+    const idx = templates.findIndex((t) => t.id === id);
+    if (idx === -1) return undefined;
+    templates[idx] = { ...templates[idx], ...copy(updates) };
+    this.save();
+    return copy(templates[idx]);
+  }
+
+  removeTemplate(accountSid: string, id: string): boolean {
+    const templates = this.account(accountSid).templates || [];
+    const idx = templates.findIndex((t) => t.id === id);
+    if (idx === -1) return false;
+    templates.splice(idx, 1);
+    this.save();
+    return true;
+  }
+
+  // ─── Account fields ────────────────────────────────────────────
+
+  getSettings(accountSid: string): Partial<AccountSettings> | undefined {
+    const { settings } = this.account(accountSid);
+    return settings && copy(settings);
+  }
+
+  setSettings(accountSid: string, settings: Partial<AccountSettings>): void {
+    this.writable(accountSid).settings = copy(settings);
+    this.save();
+  }
+
+  getNotifyServiceSid(accountSid: string): string | undefined {
+    return this.account(accountSid).notifyServiceSid;
+  }
+
+  setNotifyServiceSid(accountSid: string, sid: string): void {
+    this.writable(accountSid).notifyServiceSid = sid;
+    this.save();
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Copies data/app-data.json into the SQLite database.
+ *
+ *   npm run build && npm run migrate:sqlite [-- --force]
+ *
+ * Refuses to touch a database that already holds accounts unless --force
+ * is given, in which case accounts found in the JSON file are replaced.
+ * The JSON file is left as it is; set STORAGE_BACKEND=sqlite afterwards
+ * to switch over.
+ */
+import * as fs from 'fs';
+import { JsonFileStorage } from './json-storage';
+import { SqliteStorage } from './sqlite-storage';
+import { JSON_DATA_FILE, SQLITE_DATA_FILE } from './storage';
+
+function migrate(force: boolean): void {
+  if (!fs.existsSync(JSON_DATA_FILE)) {
+    throw new Error(`No JSON data file at ${JSON_DATA_FILE}.`);
+  }
+
+  const source = new JsonFileStorage(JSON_DATA_FILE, { readOnly: true });
+  const target = new SqliteStorage(SQLITE_DATA_FILE);
+  try {
+    const existing = target.getAccountSids();
+    if (existing.length > 0 && !force) {
+      throw new Error(
+        `${SQLITE_DATA_FILE} already holds ${existing.length} account(s). Re-run with --force to replace them.`
+      );
+    }
+
+    target.transaction(() => {
+      for (const accountSid of source.getAccountSids()) {
+        const account = source.getAccountData(accountSid);
+        target.setAccountData(accountSid, account);
+        console.log(
+          `  ${accountSid}: ${account.contacts.length} contacts, ${account.messages.length} messages, ${(account.templates || []).length} templates`
+        );
+      }
+      const legacy = source.getLegacy();
+      if (legacy) {
+        target.setLegacy(legacy);
+        console.log(`  unclaimed pre-account data: ${legacy.contacts.length} contacts`);
+      }
+    });
+  } finally {
+    target.close();
+  }
+
+  console.log(`Migrated ${JSON_DATA_FILE} to ${SQLITE_DATA_FILE}.`);
+  console.log('Start the server with STORAGE_BACKEND=sqlite to use it.');
+}
+
+try {
+  migrate(process.argv.includes('--force'));
+} catch (err) {
+  console.error(`Migration failed: ${(err as Error).message}`);
+  process.exit(1);
+}
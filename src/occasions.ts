@@ -0,0 +1,131 @@
+/**
+ * Recurring occasions on a contact: their birthday plus any anniversaries
+ * or custom dates, each sent once a year with its own templates and send
+ * time.
+ *
+ * Contacts stored before occasions existed have only birthday fields; they
+ * read as a single birthday occasion until migrateOccasions() writes that
+ * down. The birthday occasion never stores a date of its own, so the
+ * contact's birthday stays the one place it is kept.
+ */
+import {
+  getAccountSids,
+  getContacts,
+  getMessages,
+  transaction,
+  updateContact,
+  updateMessage,
+} from './store';
+import { Contact, Occasion, OccasionType, ScheduledMessage } from './types';
+
+export const OCCASION_TYPES: OccasionType[] = [
+  'birthday',
+  'anniversary',
+  'work-anniversary',
+  'custom',
+];
+
+export const BIRTHDAY_OCCASION_ID = 'birthday';
+
+const DEFAULT_LABELS: Record<OccasionType, string> = {
+  birthday: 'Birthday',
+  anniversary: 'Anniversary',
+  'work-anniversary': 'Work anniversary',
+  custom: 'Occasion',
+};
+
+export function occasionLabel(occasion: Pick<Occasion, 'type' | 'label'>): string {
+  return occasion.label || DEFAULT_LABELS[occasion.type];
+}
+
+// Older contacts kept their template choice on the contact itself
+function legacyBirthdayOccasion(contact: Contact): Occasion {
+  return {
+    id: BIRTHDAY_OCCASION_ID,
+    type: 'birthday',
+    templateMode: contact.templateMode || 'random',
+    templateId: contact.templateId,
+  };
+}
+
+export function getOccasions(contact: Contact): Occasion[] {
+  return contact.occasions || [legacyBirthdayOccasion(contact)];
+}
+
+export function getOccasion(
+  contact: Contact,
+  occasionId: string | undefined
+): Occasion | undefined {
+  return occasionId ? getOccasions(contact).find((o) => o.id === occasionId) : undefined;
+}
+
+/** The contact's birthday occasion, which every contact has. */
+export function getBirthdayOccasion(contact: Contact): Occasion {
+  return getOccasion(contact, BIRTHDAY_OCCASION_ID) || legacyBirthdayOccasion(contact);
+}
+
+/** MM-DD and, when known, YYYY-MM-DD of the first occurrence. */
+export function occasionDate(
+  contact: Contact,
+  occasion: Occasion
+): { date: string; dateFull?: string } {
+  if (occasion.type === 'birthday') {
+    return { date: contact.birthday, dateFull: contact.birthdayFull };
+  }
+  return { date: occasion.date!, dateFull: occasion.dateFull };
+}
+
+/** The occasion a message is for; replies, broadcasts and one-off messages have none. */
+export function messageOccasionId(message: ScheduledMessage): string | undefined {
+  if (message.reply || message.broadcastId || message.custom) return undefined;
+  return message.occasionId || BIRTHDAY_OCCASION_ID;
+}
+
+/**
+ * Replace one occasion (or add it) and return the contact updates. The
+ * birthday's legacy template fields are dropped once occasions are stored.
+ */
+export function withOccasion(contact: Contact, occasion: Occasion): Partial<Contact> {
+  const occasions = getOccasions(contact).filter((o) => o.id !== occasion.id);
+  return {
+    occasions: [...occasions, occasion],
+    templateMode: undefined,
+    templateId: undefined,
+  };
+}
+
+export function withoutOccasion(contact: Contact, occasionId: string): Partial<Contact> {
+  return {
+    occasions: getOccasions(contact).filter((o) => o.id !== occasionId),
+    templateMode: undefined,
+    templateId: undefined,
+  };
+}
+
+/**
+ * Store the occasion shape for contacts and messages from before
+ * occasions existed. Returns the number of contacts migrated.
+ */
+export function migrateOccasions(): number {
+  let migrated = 0;
+  for (const accountSid of getAccountSids()) {
+    transaction(() => {
+      for (const contact of getContacts(accountSid)) {
+        if (contact.occasions) continue;
+        updateContact(accountSid, contact.id, withOccasion(contact, getBirthdayOccasion(contact)));
+        migrated++;
+      }
+      for (const message of getMessages(accountSid)) {
+        if (message.occasionId || !messageOccasionId(message)) continue;
+        updateMessage(accountSid, message.id, {
+          occasionId: BIRTHDAY_OCCASION_ID,
+          occasionType: 'birthday',
+        });
+      }
+    });
+  }
+  if (migrated > 0) {
+    console.log(`Moved ${migrated} contact birthday(s) into occasions.`);
+  }
+  return migrated;
+}
@@ -0,0 +1,96 @@
+/**
+ * SMS opt-out and opt-in keywords from inbound messages.
+ *
+ * Twilio answers the standard keywords itself and refuses to send to a
+ * number that replied STOP (error 21610). Tracking it on the contact stops
+ * us scheduling messages that can only fail.
+ */
+import { findContactByPhone, getMessages, transaction, updateContact, updateMessage } from './store';
+import { scheduleMessagesForContact } from './scheduler';
+import { Contact, OptOutSource } from './types';
+
+// Twilio's default opt-out and opt-in keywords
+const OPT_OUT_KEYWORDS = new Set([
+  'STOP',
+  'STOPALL',
+  'UNSUBSCRIBE',
+  'CANCEL',
+  'END',
+  'QUIT',
+  'OPTOUT',
+  'REVOKE',
+]);
+const OPT_IN_KEYWORDS = new Set(['START', 'UNSTOP', 'YES']);
+
+export type OptKeyword = 'opt-out' | 'opt-in';
+
+/**
+ * Whether an inbound message is an opt-out or opt-in keyword. Like Twilio,
+ * only a message consisting of the keyword alone counts.
+ */
+export function parseOptKeyword(body: string): OptKeyword | undefined {
+  const word = body.trim().replace(/[.!]+$/, '').replace(/[\s-]+/g, '').toUpperCase();
+  if (OPT_OUT_KEYWORDS.has(word)) return 'opt-out';
+  if (OPT_IN_KEYWORDS.has(word)) return 'opt-in';
+  return undefined;
+}
+
+/**
+ * Opt a contact out (cancelling their scheduled messages) or back in
+ * (scheduling their next birthday), logging the change. Does nothing
+ * when the contact is already in that state.
+ */
+export function setContactOptOut(
+  accountSid: string,
+  contact: Contact,
+  optedOut: boolean,
+  source: OptOutSource,
+  keyword?: string
+): Contact {
+  if (Boolean(contact.optedOut) === optedOut) return contact;
+
+  return transaction(() => {
+    const updated = updateContact(accountSid, contact.id, {
+      optedOut: optedOut || undefined,
+      optOutLog: [
+        ...(contact.optOutLog || []),
+        { optedOut, at: new Date().toISOString(), source, keyword },
+      ],
+    })!;
+
+    if (optedOut) {
+      for (const m of getMessages(accountSid, { contactId: contact.id, status: 'scheduled' })) {
+        updateMessage(accountSid, m.id, { status: 'cancelled' });
+      }
+    } else {
+      scheduleMessagesForContact(accountSid, contact.id);
+    }
+
+    console.log(
+      `${contact.name} (${contact.phone}) opted ${optedOut ? 'out' : 'back in'} via ${source}` +
+        (keyword ? ` ("${keyword}")` : '')
+    );
+    return updated;
+  });
+}
+
+export interface InboundResult {
+  contact?: Contact;
+  keyword?: OptKeyword;
+}
+
+/** Applies an inbound SMS from a contact: opt-out/opt-in keywords change their state. */
+export function handleInboundSms(accountSid: string, from: string, body: string): InboundResult {
+  const contact = findContactByPhone(accountSid, from);
+  const keyword = parseOptKeyword(body);
+  if (!contact || !keyword) return { contact, keyword };
+
+  const updated = setContactOptOut(
+    accountSid,
+    contact,
+    keyword === 'opt-out',
+    'inbound-sms',
+    body.trim()
+  );
+  return { contact: updated, keyword };
+}
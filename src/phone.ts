@@ -1,138 +1,153 @@
 /**
  * Phone number validation and E.164 formatting.
- * Handles international numbers with country codes.
+ * Backed by libphonenumber metadata: per-country length rules, national
+ * (trunk) prefix handling and number type detection.
  */
+import {
+  CountryCode,
+  PhoneNumberType,
+  isSupportedCountry,
+  parsePhoneNumberFromString,
+  validatePhoneNumberLength,
+} from 'libphonenumber-js/max';
 
-// Common country calling codes for reference
-const COUNTRY_CODES: Record<string, string> = {
-  '1': 'US/CA',
-  '44': 'UK',
-  '91': 'IN',
-  '61': 'AU',
-  '33': 'FR',
-  '49': 'DE',
-  '81': 'JP',
-  '86': 'CN',
-  '55': 'BR',
-  '52': 'MX',
-  '34': 'ES',
-  '39': 'IT',
-  '82': 'KR',
-  '31': 'NL',
-  '46': 'SE',
-  '47': 'NO',
-  '45': 'DK',
-  '358': 'FI',
-  '48': 'PL',
-  '41': 'CH',
-  '43': 'AT',
-  '32': 'BE',
-  '351': 'PT',
-  '353': 'IE',
-  '64': 'NZ',
-  '65': 'SG',
-  '60': 'MY',
-  '66': 'TH',
-  '63': 'PH',
-  '62': 'ID',
-  '84': 'VN',
-  '90': 'TR',
-  '966': 'SA',
-  '971': 'AE',
-  '972': 'IL',
-  '20': 'EG',
-  '27': 'ZA',
-  '234': 'NG',
-  '254': 'KE',
-  '92': 'PK',
-  '880': 'BD',
+// Region used to interpret numbers dialled without a country code
+export const DEFAULT_REGION: CountryCode = 'US';
+
+// Default IANA time zone per country. Countries spanning several zones
+// use their most populous one; contacts can override it.
+const COUNTRY_TIME_ZONES: Record<string, string> = {
+  US: 'America/New_York',
+  CA: 'America/Toronto',
+  GB: 'Europe/London',
+  IN: 'Asia/Kolkata',
+  AU: 'Australia/Sydney',
+  FR: 'Europe/Paris',
+  DE: 'Europe/Berlin',
+  JP: 'Asia/Tokyo',
+  CN: 'Asia/Shanghai',
+  BR: 'America/Sao_Paulo',
+  MX: 'America/Mexico_City',
+  ES: 'Europe/Madrid',
+  IT: 'Europe/Rome',
+  KR: 'Asia/Seoul',
+  NL: 'Europe/Amsterdam',
+  SE: 'Europe/Stockholm',
+  NO: 'Europe/Oslo',
+  DK: 'Europe/Copenhagen',
+  FI: 'Europe/Helsinki',
+  PL: 'Europe/Warsaw',
+  CH: 'Europe/Zurich',
+  AT: 'Europe/Vienna',
+  BE: 'Europe/Brussels',
+  PT: 'Europe/Lisbon',
+  IE: 'Europe/Dublin',
+  NZ: 'Pacific/Auckland',
+  SG: 'Asia/Singapore',
+  MY: 'Asia/Kuala_Lumpur',
+  TH: 'Asia/Bangkok',
+  PH: 'Asia/Manila',
+  ID: 'Asia/Jakarta',
+  VN: 'Asia/Ho_Chi_Minh',
+  TR: 'Europe/Istanbul',
+  SA: 'Asia/Riyadh',
+  AE: 'Asia/Dubai',
+  IL: 'Asia/Jerusalem',
+  EG: 'Africa/Cairo',
+  ZA: 'Africa/Johannesburg',
+  NG: 'Africa/Lagos',
+  KE: 'Africa/Nairobi',
+  PK: 'Asia/Karachi',
+  BD: 'Asia/Dhaka',
 };
 
+// Number types that cannot receive SMS
+const NON_SMS_TYPES: PhoneNumberType[] = [
+  'FIXED_LINE',
+  'TOLL_FREE',
+  'PREMIUM_RATE',
+  'SHARED_COST',
+  'PAGER',
+  'VOICEMAIL',
+  'UAN',
+];
+
+export type PhoneNumberKind = Lowercase<PhoneNumberType>;
+
 export interface PhoneValidationResult {
   valid: boolean;
   formatted?: string; // E.164 format
   error?: string;
-  countryHint?: string;
+  country?: string; // ISO 3166-1 alpha-2, e.g. GB
+  numberType?: PhoneNumberKind; // absent when the metadata cannot tell
+  smsCapable?: boolean; // false for landlines and other non-SMS numbers
+  timeZone?: string; // default IANA zone for the country, if known
 }
 
-export function validateAndFormatPhone(input: string): PhoneValidationResult {
-  // Strip all non-digit characters except leading +
-  let cleaned = input.trim();
-  const hasPlus = cleaned.startsWith('+');
-  cleaned = cleaned.replace(/[^\d]/g, '');
+export function isValidRegion(region: string): region is CountryCode {
+  return isSupportedCountry(region);
+}
 
-  if (cleaned.length === 0) {
-    return { valid: false, error: 'Phone number is empty' };
-  }
+const LENGTH_ERRORS: Record<string, string> = {
+  TOO_SHORT: 'Phone number is too short',
+  TOO_LONG: 'Phone number is too long',
+  INVALID_LENGTH: 'Phone number has an invalid length',
+  INVALID_COUNTRY:
+    'Could not determine country code. Please include "+" followed by your country code (e.g., +44 for UK, +1 for US).',
+  NOT_A_NUMBER: 'Phone number is not a number',
+};
 
-  // If it started with +, we already have the full international number
-  if (hasPlus) {
-    if (cleaned.length < 7 || cleaned.length > 15) {
-      return {
-        valid: false,
-        error: `Phone number with country code should be 7-15 digits, got ${cleaned.length}`,
-      };
-    }
-    const formatted = `+${cleaned}`;
-    const countryHint = detectCountry(cleaned);
-    return { valid: true, formatted, countryHint };
+export function validateAndFormatPhone(
+  input: string,
+  defaultRegion: string = DEFAULT_REGION
+): PhoneValidationResult {
+  let cleaned = input.trim();
+  if (cleaned.replace(/[^\d]/g, '').length === 0) {
+    return { valid: false, error: 'Phone number is empty' };
   }
 
-  // If starts with 00 (international dialing prefix), treat the rest as country code + number
-  if (cleaned.startsWith('00')) {
-    cleaned = cleaned.substring(2);
-    if (cleaned.length < 7 || cleaned.length > 15) {
-      return {
-        valid: false,
-        error: `Phone number should be 7-15 digits after country code, got ${cleaned.length}`,
-      };
-    }
-    const formatted = `+${cleaned}`;
-    const countryHint = detectCountry(cleaned);
-    return { valid: true, formatted, countryHint };
+  // 00 is the international dialing prefix in most of the world
+  if (/^00/.test(cleaned.replace(/[^\d+]/g, ''))) {
+    cleaned = '+' + cleaned.replace(/[^\d]/g, '').substring(2);
   }
 
-  // If 10 digits (no country code), assume US/Canada (+1)
-  if (cleaned.length === 10) {
-    const formatted = `+1${cleaned}`;
-    return { valid: true, formatted, countryHint: 'US/CA (assumed)' };
-  }
+  const region: CountryCode = isValidRegion(defaultRegion) ? defaultRegion : DEFAULT_REGION;
 
-  // If 11 digits starting with 1, assume US/Canada
-  if (cleaned.length === 11 && cleaned.startsWith('1')) {
-    const formatted = `+${cleaned}`;
-    return { valid: true, formatted, countryHint: 'US/CA' };
+  const lengthError = validatePhoneNumberLength(cleaned, region);
+  if (lengthError) {
+    return { valid: false, error: LENGTH_ERRORS[lengthError] || 'Invalid phone number.' };
   }
 
-  // Try to treat it as a full international number
-  if (cleaned.length >= 7 && cleaned.length <= 15) {
-    const formatted = `+${cleaned}`;
-    const countryHint = detectCountry(cleaned);
-    if (countryHint) {
-      return { valid: true, formatted, countryHint };
-    }
+  const parsed = parsePhoneNumberFromString(cleaned, region);
+  if (!parsed || !parsed.isValid()) {
     return {
       valid: false,
-      error:
-        'Could not determine country code. Please include "+" followed by your country code (e.g., +44 for UK, +1 for US).',
+      error: parsed?.country
+        ? `Not a valid phone number for ${parsed.country}.`
+        : 'Not a valid phone number.',
     };
   }
 
+  const type = parsed.getType();
   return {
-    valid: false,
-    error: `Invalid phone number length (${cleaned.length} digits). Expected 7-15 digits with country code.`,
+    valid: true,
+    formatted: parsed.number,
+    country: parsed.country,
+    numberType: type ? (type.toLowerCase() as PhoneNumberKind) : undefined,
+    smsCapable: type ? !NON_SMS_TYPES.includes(type) : true,
+    timeZone: parsed.country ? COUNTRY_TIME_ZONES[parsed.country] : undefined,
   };
 }
 
-function detectCountry(digits: string): string | undefined {
-  // Check 3-digit codes first, then 2-digit, then 1-digit
-  for (const len of [3, 2, 1]) {
-    const prefix = digits.substring(0, len);
-    if (COUNTRY_CODES[prefix]) {
-      return COUNTRY_CODES[prefix];
-    }
-  }
-  return undefined;
+/** ISO country of an E.164 number. */
+export function countryForPhone(phoneE164: string): string | undefined {
+  return parsePhoneNumberFromString(phoneE164)?.country;
+}
+
+/** Default time zone for an E.164 number, from its country. */
+export function defaultTimeZoneForPhone(phoneE164: string): string | undefined {
+  const country = countryForPhone(phoneE164);
+  return country ? COUNTRY_TIME_ZONES[country] : undefined;
 }
 
 export function isE164(phone: string): boolean {
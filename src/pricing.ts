@@ -0,0 +1,130 @@
+/**
+ * SMS cost estimates and the per-month budget cap.
+ * Prices are USD per outbound segment, keyed by ISO country code.
+ */
+import { countryForPhone } from './phone';
+import { getMessages, getSettings } from './store';
+import { analyzeSms } from './sms-segments';
+import { AccountSettings, ScheduledMessage } from './types';
+
+// Approximate list prices; accounts override them with settings.smsPrices
+export const DEFAULT_SMS_PRICES: Record<string, number> = {
+  US: 0.0083,
+  CA: 0.0083,
+  GB: 0.0524,
+  IN: 0.0832,
+  AU: 0.0515,
+  FR: 0.0865,
+  DE: 0.0987,
+  JP: 0.0846,
+  CN: 0.0462,
+  BR: 0.0525,
+  MX: 0.0549,
+  ES: 0.0881,
+  IT: 0.0895,
+  NL: 0.1044,
+  IE: 0.0841,
+  NZ: 0.1091,
+  SG: 0.0457,
+  AE: 0.0519,
+  ZA: 0.0281,
+};
+
+export const FALLBACK_SMS_PRICE = 0.05;
+
+export function getSegmentPrice(settings: AccountSettings, phoneE164: string): number {
+  const country = countryForPhone(phoneE164);
+  if (country) {
+    const custom = settings.smsPrices?.[country];
+    if (custom !== undefined) return custom;
+    if (DEFAULT_SMS_PRICES[country] !== undefined) return DEFAULT_SMS_PRICES[country];
+  }
+  return settings.defaultSmsPrice ?? FALLBACK_SMS_PRICE;
+}
+
+export function estimateMessageCost(
+  settings: AccountSettings,
+  phoneE164: string,
+  messageBody: string
+): { segments: number; cost: number } {
+  const segments = analyzeSms(messageBody).segmentCount;
+  return { segments, cost: segments * getSegmentPrice(settings, phoneE164) };
+}
+
+/** Calendar month (UTC) a send falls in, as YYYY-MM. */
+export function monthKey(date: Date): string {
+  return date.toISOString().substring(0, 7);
+}
+
+// Messages that have gone or will go out, and so count against a budget
+function isCommitted(m: ScheduledMessage): boolean {
+  return m.status !== 'cancelled' && m.status !== 'failed' && m.status !== 'missed';
+}
+
+/** Spend already committed to a month: every message that has or will go out. */
+export function getCommittedSpend(accountSid: string, month: string): number {
+  const settings = getSettings(accountSid);
+  return getMessages(accountSid)
+    .filter((m) => isCommitted(m) && monthKey(new Date(m.scheduledFor)) === month)
+    .reduce((sum, m) => sum + estimateMessageCost(settings, m.phone, m.messageBody).cost, 0);
+}
+
+/**
+ * Committed spend per month for one scheduling pass. The account's
+ * messages are costed once, on first use, and each message placed during
+ * the pass is added, so placing many contacts stays linear.
+ */
+export interface SpendLedger {
+  committed(month: string): number;
+  add(month: string, cost: number): void;
+}
+
+export function createSpendLedger(accountSid: string): SpendLedger {
+  let months: Map<string, number> | undefined;
+  const totals = (): Map<string, number> => {
+    if (!months) {
+      const settings = getSettings(accountSid);
+      months = new Map();
+      for (const m of getMessages(accountSid)) {
+        if (!isCommitted(m)) continue;
+        const month = monthKey(new Date(m.scheduledFor));
+        const { cost } = estimateMessageCost(settings, m.phone, m.messageBody);
+        months.set(month, (months.get(month) || 0) + cost);
+      }
+    }
+    return months;
+  };
+  return {
+    committed: (month) => totals().get(month) || 0,
+    add: (month, cost) => {
+      totals().set(month, (totals().get(month) || 0) + cost);
+    },
+  };
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  month: string;
+  committed: number;
+  budget?: number;
+}
+
+export function checkBudget(
+  accountSid: string,
+  scheduledFor: Date,
+  cost: number,
+  ledger?: SpendLedger
+): BudgetCheck {
+  const { monthlyBudget } = getSettings(accountSid);
+  const month = monthKey(scheduledFor);
+  if (monthlyBudget === undefined) {
+    return { allowed: true, month, committed: 0 };
+  }
+  const committed = ledger ? ledger.committed(month) : getCommittedSpend(accountSid, month);
+  return {
+    allowed: committed + cost <= monthlyBudget,
+    month,
+    committed,
+    budget: monthlyBudget,
+  };
+}
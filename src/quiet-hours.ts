@@ -0,0 +1,86 @@
+/**
+ * Account-level quiet hours: a daily window, in the recipient's local
+ * time, when nothing is texted. The window may wrap midnight, e.g.
+ * 21:00-08:00.
+ */
+import { getSettings } from './store';
+import { defaultTimeZoneForPhone } from './phone';
+import { getServerTimeZone, getZonedParts, parseSendTime, zonedTimeToUtc } from './timezone';
+import { Contact, QuietHours } from './types';
+
+export interface QuietHoursCheck {
+  until: Date; // first instant after the window
+  timeZone: string;
+  localTime: string; // HH:MM for the recipient now
+  window: QuietHours;
+}
+
+function minutesOf(hhmm: string): number {
+  const time = parseSendTime(hhmm)!;
+  return time.hour * 60 + time.minute;
+}
+
+/** Error message for an invalid window, or null when it can be saved. */
+export function validateQuietHours(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null) {
+    return 'quietHours must be { start, end } in HH:MM, or null.';
+  }
+  const { start, end } = value as Record<string, unknown>;
+  if (!parseSendTime(String(start)) || !parseSendTime(String(end))) {
+    return 'quietHours start and end must be in HH:MM (24-hour) format.';
+  }
+  if (start === end) {
+    return 'quietHours start and end must differ.';
+  }
+  return null;
+}
+
+/**
+ * Whether `at` falls in the window for a recipient in timeZone, and if so
+ * when it ends. Null outside the window.
+ */
+export function checkQuietHours(
+  window: QuietHours,
+  at: Date,
+  timeZone: string
+): QuietHoursCheck | null {
+  const local = getZonedParts(at, timeZone);
+  const now = local.hour * 60 + local.minute;
+  const start = minutesOf(window.start);
+  const end = minutesOf(window.end);
+
+  const wraps = start > end;
+  const quiet = wraps ? now >= start || now < end : now >= start && now < end;
+  if (!quiet) return null;
+
+  // Before midnight in a wrapping window, it ends tomorrow
+  const endDay = new Date(
+    Date.UTC(local.year, local.month - 1, local.day + (wraps && now >= start ? 1 : 0))
+  );
+  const until = zonedTimeToUtc(
+    endDay.getUTCFullYear(),
+    endDay.getUTCMonth() + 1,
+    endDay.getUTCDate(),
+    Math.floor(end / 60),
+    end % 60,
+    timeZone
+  );
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return { until, timeZone, localTime: `${pad(local.hour)}:${pad(local.minute)}`, window };
+}
+
+/**
+ * The account's quiet hours applied to one recipient: the contact's zone,
+ * else the zone of the number's country.
+ */
+export function recipientQuietHours(
+  accountSid: string,
+  phone: string,
+  contact?: Contact,
+  at: Date = new Date()
+): QuietHoursCheck | null {
+  const { quietHours } = getSettings(accountSid);
+  if (!quietHours) return null;
+  const timeZone = contact?.timeZone || defaultTimeZoneForPhone(phone) || getServerTimeZone();
+  return checkQuietHours(quietHours, at, timeZone);
+}
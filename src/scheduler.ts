@@ -1,149 +1,848 @@
 import * as cron from 'node-cron';
 import { v4 as uuidv4 } from 'uuid';
-import { getContacts, getMessages, addMessage, updateMessage } from './store';
-import { sendBirthdaySms, getFirstActiveClient } from './sms-service';
-import { ScheduledMessage } from './types';
+import {
+  getAccountSids,
+  getContact,
+  getContacts,
+  getMessages,
+  getSettings,
+  getTemplates,
+  addMessage,
+  updateMessage,
+  transaction,
+} from './store';
+import { sendSms, getClientForAccount, toSendAttempt } from './sms-service';
+import { recoverInterruptedSends } from './send-recovery';
+import { defaultTimeZoneForPhone } from './phone';
+import {
+  getServerTimeZone,
+  getZonedParts,
+  parseSendTime,
+  zonedTimeToUtc,
+} from './timezone';
+import {
+  DEFAULT_BELATED_TEMPLATES,
+  DEFAULT_OCCASION_TEMPLATES,
+  getTemplateValues,
+  renderTemplate,
+} from './templates';
+import {
+  SpendLedger,
+  checkBudget,
+  createSpendLedger,
+  estimateMessageCost,
+  monthKey,
+} from './pricing';
+import { recipientQuietHours } from './quiet-hours';
+import {
+  getBirthdayOccasion,
+  getOccasion,
+  getOccasions,
+  messageOccasionId,
+  migrateOccasions,
+  occasionDate,
+  occasionLabel,
+} from './occasions';
+import {
+  Contact,
+  LeapDayPolicy,
+  Occasion,
+  OccasionType,
+  ScheduledMessage,
+  SendAttempt,
+  TemplateMode,
+} from './types';
 
-const BIRTHDAY_MESSAGES = [
-  'Happy Birthday, {{name}}! Wishing you a day filled with joy, laughter, and all the things that make you smile. Have an amazing year ahead!',
-  'It\'s your special day, {{name}}! May this birthday bring you endless happiness and wonderful surprises. Cheers to another incredible year!',
-  'Happy Birthday, {{name}}! Here\'s to celebrating YOU today. May your day be as wonderful and bright as you are!',
-  'Wishing you the happiest of birthdays, {{name}}! May all your dreams come true this year. Enjoy every moment of your special day!',
-  'Happy Birthday, {{name}}! Another year of being awesome starts today. Hope your day is full of cake, fun, and unforgettable memories!',
-];
+const AWAITING_CREDENTIALS =
+  'Awaiting credentials: no stored or logged-in credentials for this account. Log in to send.';
 
-export function generateBirthdayMessage(name: string): string {
-  const template =
-    BIRTHDAY_MESSAGES[Math.floor(Math.random() * BIRTHDAY_MESSAGES.length)];
-  return interpolateName(template, name);
+type TemplateChoice = { templateMode?: TemplateMode; templateId?: string };
+
+/**
+ * Template body for an occasion: its fixed template if set and still
+ * present, otherwise a random pick from the account's templates for that
+ * kind of occasion (or the built-in greetings when there are none).
+ */
+export function pickTemplateBody(
+  accountSid: string,
+  choice: TemplateChoice,
+  type: OccasionType = 'birthday'
+): string {
+  const pool = getTemplatePool(accountSid, choice, type);
+  return pool[Math.floor(Math.random() * pool.length)];
+}
+
+/** Every template body an occasion's message may be rendered from. */
+export function getTemplatePool(
+  accountSid: string,
+  choice: TemplateChoice,
+  type: OccasionType = 'birthday'
+): string[] {
+  const templates = getTemplates(accountSid);
+  if (choice.templateMode === 'fixed' && choice.templateId) {
+    const fixed = templates.find((t) => t.id === choice.templateId);
+    if (fixed) return [fixed.body];
+  }
+  const pool = templates.filter((t) => (t.occasionType || 'birthday') === type && !t.belated);
+  return pool.length > 0 ? pool.map((t) => t.body) : DEFAULT_OCCASION_TEMPLATES[type];
+}
+
+/** Late greeting for an occasion whose message was missed. */
+export function generateBelatedMessage(
+  accountSid: string,
+  contact: Contact,
+  occasion: Occasion,
+  year: number
+): string {
+  const saved = getTemplates(accountSid).filter(
+    (t) => (t.occasionType || 'birthday') === occasion.type && t.belated
+  );
+  const pool =
+    saved.length > 0 ? saved.map((t) => t.body) : DEFAULT_BELATED_TEMPLATES[occasion.type];
+  const body = pool[Math.floor(Math.random() * pool.length)];
+  return renderForContact(accountSid, contact, body, year, templateOccasion(contact, occasion));
+}
+
+export function renderForContact(
+  accountSid: string,
+  contact: Pick<Contact, 'name' | 'birthdayFull'>,
+  templateBody: string,
+  year: number,
+  occasion?: { type: OccasionType; label: string; dateFull?: string }
+): string {
+  const { senderName } = getSettings(accountSid);
+  return renderTemplate(templateBody, getTemplateValues(contact, year, senderName, occasion));
+}
+
+export function generateOccasionMessage(
+  accountSid: string,
+  contact: Contact,
+  occasion: Occasion,
+  year: number
+): string {
+  return renderForContact(
+    accountSid,
+    contact,
+    pickTemplateBody(accountSid, occasion, occasion.type),
+    year,
+    templateOccasion(contact, occasion)
+  );
+}
+
+export function generateBirthdayMessage(
+  accountSid: string,
+  contact: Contact,
+  year: number
+): string {
+  return generateOccasionMessage(accountSid, contact, getBirthdayOccasion(contact), year);
 }
 
-export function interpolateName(template: string, name: string): string {
-  const safeName = name
-    .replace(/[<>]/g, '')
-    .trim();
-  return template.replace(/\{\{name\}\}/g, safeName);
+// What getTemplateValues needs to know about an occasion
+export function templateOccasion(
+  contact: Contact,
+  occasion: Occasion
+): { type: OccasionType; label: string; dateFull?: string } {
+  return {
+    type: occasion.type,
+    label: occasionLabel(occasion),
+    dateFull: occasionDate(contact, occasion).dateFull,
+  };
+}
+
+export const DEFAULT_SEND_TIME = '09:00';
+
+export interface BirthdayScheduleOptions {
+  timeZone?: string; // IANA zone; defaults to the server's zone
+  sendTime?: string; // HH:MM; defaults to DEFAULT_SEND_TIME
+  leapDayPolicy?: LeapDayPolicy; // defaults to 'feb28'
+}
+
+export function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * The calendar day a birthday falls on in a given year. A 02-29 birthday
+ * moves to Feb 28 or Mar 1 in common years according to the policy.
+ */
+export function resolveBirthdayForYear(
+  birthdayMMDD: string,
+  year: number,
+  policy: LeapDayPolicy = 'feb28'
+): { month: number; day: number; leapDayAdjustment?: LeapDayPolicy } {
+  const [month, day] = birthdayMMDD.split('-').map(Number);
+  if (month === 2 && day === 29 && !isLeapYear(year)) {
+    return policy === 'mar1'
+      ? { month: 3, day: 1, leapDayAdjustment: policy }
+      : { month: 2, day: 28, leapDayAdjustment: policy };
+  }
+  return { month, day };
+}
+
+/** Schedule options for one of a contact's occasions (their birthday by default). */
+export function getContactScheduleOptions(
+  accountSid: string,
+  contact: Contact,
+  occasion?: Occasion
+): BirthdayScheduleOptions {
+  return {
+    timeZone: contact.timeZone || defaultTimeZoneForPhone(contact.phone),
+    sendTime: occasion?.sendTime || contact.sendTime,
+    leapDayPolicy: getSettings(accountSid).leapDayPolicy,
+  };
+}
+
+function resolveSendTime(sendTime?: string): { hour: number; minute: number } {
+  return parseSendTime(sendTime || DEFAULT_SEND_TIME) || parseSendTime(DEFAULT_SEND_TIME)!;
+}
+
+/** The send instant for a birthday in a given year, in the contact's local time. */
+export function getBirthdayDateForYear(
+  birthdayMMDD: string,
+  year: number,
+  options: BirthdayScheduleOptions = {}
+): Date {
+  const { month, day } = resolveBirthdayForYear(
+    birthdayMMDD,
+    year,
+    options.leapDayPolicy
+  );
+  const time = resolveSendTime(options.sendTime);
+  const timeZone = options.timeZone || getServerTimeZone();
+  return zonedTimeToUtc(year, month, day, time.hour, time.minute, timeZone);
 }
 
 export function getNextBirthdayDate(
   birthdayMMDD: string,
-  referenceDate?: Date
+  referenceDate?: Date,
+  options: BirthdayScheduleOptions = {}
 ): Date {
   const ref = referenceDate || new Date();
-  const [month, day] = birthdayMMDD.split('-').map(Number);
-  const thisYear = ref.getFullYear();
+  const timeZone = options.timeZone || getServerTimeZone();
+  // "This year" is the contact's local year, not the server's
+  const thisYear = getZonedParts(ref, timeZone).year;
 
-  const thisYearBday = new Date(thisYear, month - 1, day, 9, 0, 0);
+  const thisYearBday = getBirthdayDateForYear(birthdayMMDD, thisYear, options);
 
   if (thisYearBday <= ref) {
-    return new Date(thisYear + 1, month - 1, day, 9, 0, 0);
+    return getBirthdayDateForYear(birthdayMMDD, thisYear + 1, options);
   }
 
   return thisYearBday;
 }
 
-export function scheduleMessagesForContact(contactId: string): ScheduledMessage | null {
-  const contacts = getContacts();
-  const contact = contacts.find((c) => c.id === contactId);
-  if (!contact) return null;
+/**
+ * Apply the account's monthly budget to a new message. Returns when to send
+ * it, or null when the 'block' policy refuses it. The 'defer' policy moves
+ * it to the 1st of the first following month with room, at the usual time.
+ */
+function placeWithinBudget(
+  accountSid: string,
+  contact: Contact,
+  sendAt: Date,
+  messageBody: string,
+  options: BirthdayScheduleOptions,
+  ledger: SpendLedger
+): { scheduledFor: Date; deferredFrom?: string; deferralReason?: string } | null {
+  const settings = getSettings(accountSid);
+  const { cost } = estimateMessageCost(settings, contact.phone, messageBody);
+  const check = checkBudget(accountSid, sendAt, cost, ledger);
+  if (check.allowed) {
+    ledger.add(check.month, cost);
+    return { scheduledFor: sendAt };
+  }
+
+  const reason = `Monthly SMS budget of $${check.budget} reached for ${check.month}`;
+  if (settings.budgetPolicy === 'block') {
+    console.warn(`Not scheduling message for ${contact.name}: ${reason}`);
+    return null;
+  }
+
+  const timeZone = options.timeZone || getServerTimeZone();
+  const time = resolveSendTime(options.sendTime);
+  const local = getZonedParts(sendAt, timeZone);
+  for (let i = 1; i <= 12; i++) {
+    const monthIndex = local.month - 1 + i;
+    const candidate = zonedTimeToUtc(
+      local.year + Math.floor(monthIndex / 12),
+      (monthIndex % 12) + 1,
+      1,
+      time.hour,
+      time.minute,
+      timeZone
+    );
+    const candidateCheck = checkBudget(accountSid, candidate, cost, ledger);
+    if (candidateCheck.allowed) {
+      ledger.add(candidateCheck.month, cost);
+      return {
+        scheduledFor: candidate,
+        deferredFrom: sendAt.toISOString(),
+        deferralReason: reason,
+      };
+    }
+  }
+
+  console.warn(`Not scheduling message for ${contact.name}: ${reason} and no later month has room`);
+  return null;
+}
+
+/**
+ * Make sure a contact has a message scheduled for the next occurrence of
+ * each of their occasions. Returns the scheduled messages, existing or new.
+ * Callers scheduling many contacts share one ledger across them.
+ */
+export function scheduleMessagesForContact(
+  accountSid: string,
+  contactId: string,
+  ledger: SpendLedger = createSpendLedger(accountSid)
+): ScheduledMessage[] {
+  const contact = getContact(accountSid, contactId);
+  if (!contact || contact.optedOut) return [];
 
-  const messages = getMessages();
+  const scheduled: ScheduledMessage[] = [];
+  for (const occasion of getOccasions(contact)) {
+    const msg = scheduleOccasion(accountSid, contact, occasion, ledger);
+    if (msg) scheduled.push(msg);
+  }
+  return scheduled;
+}
+
+function scheduleOccasion(
+  accountSid: string,
+  contact: Contact,
+  occasion: Occasion,
+  ledger: SpendLedger
+): ScheduledMessage | null {
   const now = new Date();
-  const nextBirthday = getNextBirthdayDate(contact.birthday, now);
-  const year = nextBirthday.getFullYear();
-
-  const existing = messages.find(
-    (m) =>
-      m.contactId === contactId &&
-      m.year === year &&
-      m.status === 'scheduled'
+  const { date } = occasionDate(contact, occasion);
+  const options = getContactScheduleOptions(accountSid, contact, occasion);
+  const nextDate = getNextBirthdayDate(date, now, options);
+  const year = getZonedParts(nextDate, options.timeZone || getServerTimeZone()).year;
+  const { leapDayAdjustment } = resolveBirthdayForYear(date, year, options.leapDayPolicy);
+
+  // One message per occasion per year
+  const existing = getMessages(accountSid, { contactId: contact.id, status: 'scheduled' }).find(
+    (m) => messageOccasionId(m) === occasion.id && m.year === year
   );
   if (existing) return existing;
 
-  const messageBody = generateBirthdayMessage(contact.name);
+  const messageBody = generateOccasionMessage(accountSid, contact, occasion, year);
+  const placement = placeWithinBudget(accountSid, contact, nextDate, messageBody, options, ledger);
+  if (!placement) return null;
+
   const message: ScheduledMessage = {
     id: uuidv4(),
     contactId: contact.id,
     contactName: contact.name,
     phone: contact.phone,
     messageBody,
-    scheduledFor: nextBirthday.toISOString(),
+    scheduledFor: placement.scheduledFor.toISOString(),
     status: 'scheduled',
     createdAt: new Date().toISOString(),
     year,
+    occasionId: occasion.id,
+    occasionType: occasion.type,
+    leapDayAdjustment,
+    deferredFrom: placement.deferredFrom,
+    deferralReason: placement.deferralReason,
   };
 
-  addMessage(message);
+  addMessage(accountSid, message);
   return message;
 }
 
-export function scheduleAllContacts(): ScheduledMessage[] {
-  const contacts = getContacts();
-  const scheduled: ScheduledMessage[] = [];
+/** Year (in the contact's zone) of the next send for an occasion, by default their birthday. */
+export function getNextOccasionYear(
+  accountSid: string,
+  contact: Contact,
+  occasion: Occasion = getBirthdayOccasion(contact)
+): number {
+  const options = getContactScheduleOptions(accountSid, contact, occasion);
+  const next = getNextBirthdayDate(occasionDate(contact, occasion).date, new Date(), options);
+  return getZonedParts(next, options.timeZone || getServerTimeZone()).year;
+}
 
-  for (const contact of contacts) {
-    const msg = scheduleMessagesForContact(contact.id);
-    if (msg) scheduled.push(msg);
+/**
+ * Re-render the bodies of a contact's still-scheduled messages after their
+ * template choice or a template they use changed. Returns the updated count.
+ */
+export function rerenderScheduledMessages(accountSid: string, contactId: string): number {
+  const contact = getContact(accountSid, contactId);
+  if (!contact) return 0;
+
+  let updated = 0;
+  for (const msg of getMessages(accountSid, { contactId, status: 'scheduled' })) {
+    const occasion = getOccasion(contact, messageOccasionId(msg));
+    if (!occasion) continue;
+    updateMessage(accountSid, msg.id, {
+      messageBody: generateOccasionMessage(accountSid, contact, occasion, msg.year),
+    });
+    updated++;
   }
+  return updated;
+}
 
-  return scheduled;
+// deferralReason of a message the user moved to a time of their choosing
+const RESCHEDULED_REASON = 'Rescheduled';
+
+/**
+ * Bring a contact's still-scheduled messages in line after the contact was
+ * edited: copy the current name and phone, move the messages of occasions
+ * whose date changed to the new date (within the budget), re-render bodies
+ * when asked, and cancel those whose occasion was removed. Messages the
+ * user rescheduled keep their time, and one-off messages only get the name
+ * and phone. Sent history is untouched. Returns the updated count.
+ */
+export function reconcileContactMessages(
+  accountSid: string,
+  contactId: string,
+  changes: { datesChanged: string[]; rerender: boolean } // ids of occasions with a new date
+): number {
+  const contact = getContact(accountSid, contactId);
+  if (!contact) return 0;
+
+  const settings = getSettings(accountSid);
+  const ledger = createSpendLedger(accountSid);
+  let updated = 0;
+  for (const msg of getMessages(accountSid, { contactId, status: 'scheduled' })) {
+    const occasionId = messageOccasionId(msg);
+    const occasion = getOccasion(contact, occasionId);
+    if (occasionId && !occasion) {
+      updateMessage(accountSid, msg.id, { status: 'cancelled' });
+      updated++;
+      continue;
+    }
+
+    const updates: Partial<ScheduledMessage> = {
+      contactName: contact.name,
+      phone: contact.phone,
+    };
+    const moved =
+      occasion &&
+      changes.datesChanged.includes(occasion.id) &&
+      msg.deferralReason !== RESCHEDULED_REASON;
+    if (occasion && moved) {
+      const { date } = occasionDate(contact, occasion);
+      const options = getContactScheduleOptions(accountSid, contact, occasion);
+      const next = getNextBirthdayDate(date, new Date(), options);
+      const year = getZonedParts(next, options.timeZone || getServerTimeZone()).year;
+      const messageBody = generateOccasionMessage(accountSid, contact, occasion, year);
+
+      // Its old slot no longer counts against the budget
+      const { cost } = estimateMessageCost(settings, msg.phone, msg.messageBody);
+      ledger.add(monthKey(new Date(msg.scheduledFor)), -cost);
+      const placement = placeWithinBudget(accountSid, contact, next, messageBody, options, ledger);
+      if (!placement) {
+        updateMessage(accountSid, msg.id, { status: 'cancelled' });
+        updated++;
+        continue;
+      }
+
+      Object.assign(updates, {
+        year,
+        messageBody,
+        scheduledFor: placement.scheduledFor.toISOString(),
+        leapDayAdjustment: resolveBirthdayForYear(date, year, options.leapDayPolicy)
+          .leapDayAdjustment,
+        deferredFrom: placement.deferredFrom,
+        deferralReason: placement.deferralReason,
+        retryPending: undefined,
+      });
+    } else if (occasion && (changes.rerender || changes.datesChanged.includes(occasion.id))) {
+      updates.messageBody = generateOccasionMessage(accountSid, contact, occasion, msg.year);
+    }
+
+    updateMessage(accountSid, msg.id, updates);
+    updated++;
+  }
+  return updated;
 }
 
-async function processDueMessages(): Promise<void> {
-  const messages = getMessages();
-  const now = new Date();
+/**
+ * Recompute send times of a contact's still-scheduled messages, e.g. after
+ * their time zone, preferred send time or the leap-day policy changed.
+ * Returns the updated count.
+ */
+export function rescheduleContact(accountSid: string, contactId: string): number {
+  const contact = getContact(accountSid, contactId);
+  if (!contact) return 0;
+
+  let updated = 0;
+  for (const msg of getMessages(accountSid, { contactId, status: 'scheduled' })) {
+    // Budget deferrals keep their deferred date
+    if (msg.deferredFrom) continue;
+    const occasion = getOccasion(contact, messageOccasionId(msg));
+    if (!occasion) continue;
+    const { date } = occasionDate(contact, occasion);
+    const options = getContactScheduleOptions(accountSid, contact, occasion);
+    const scheduledFor = getBirthdayDateForYear(date, msg.year, options).toISOString();
+    const { leapDayAdjustment } = resolveBirthdayForYear(
+      date,
+      msg.year,
+      options.leapDayPolicy
+    );
+    if (
+      scheduledFor !== msg.scheduledFor ||
+      leapDayAdjustment !== msg.leapDayAdjustment
+    ) {
+      updateMessage(accountSid, msg.id, { scheduledFor, leapDayAdjustment });
+      updated++;
+    }
+  }
+  return updated;
+}
 
-  // Use the first active session client for scheduled sends
-  const bundle = getFirstActiveClient();
+// How far ahead a one-off message can be scheduled
+export const ONE_OFF_MAX_HORIZON_DAYS = 365;
 
-  for (const msg of messages) {
-    if (msg.status !== 'scheduled') continue;
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
 
-    const scheduledTime = new Date(msg.scheduledFor);
-    if (scheduledTime <= now) {
+/**
+ * Parse the send time of a one-off or rescheduled message: an ISO 8601
+ * date-time with a UTC offset, in the future and within the horizon.
+ */
+export function parseOneOffTime(
+  value: unknown,
+  now: Date = new Date()
+): { sendAt: Date } | { error: string } {
+  const text = typeof value === 'string' ? value.trim() : '';
+  const sendAt = new Date(text);
+  if (!ISO_DATE_TIME.test(text) || isNaN(sendAt.getTime())) {
+    return {
+      error: 'scheduledFor must be an ISO 8601 date-time with a UTC offset, e.g. 2025-12-31T23:30:00Z.',
+    };
+  }
+  if (sendAt <= now) {
+    return { error: 'scheduledFor must be in the future.' };
+  }
+  const horizon = new Date(now.getTime() + ONE_OFF_MAX_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+  if (sendAt > horizon) {
+    return { error: `scheduledFor must be within ${ONE_OFF_MAX_HORIZON_DAYS} days.` };
+  }
+  return { sendAt };
+}
+
+// Whether the monthly budget has room for a message sent at sendAt
+function budgetError(accountSid: string, phone: string, body: string, sendAt: Date): string | null {
+  const { cost } = estimateMessageCost(getSettings(accountSid), phone, body);
+  const check = checkBudget(accountSid, sendAt, cost);
+  return check.allowed ? null : `Monthly SMS budget of $${check.budget} reached for ${check.month}.`;
+}
+
+/**
+ * Schedule a custom message to a contact at an exact time. The body is
+ * rendered like a template. Returns the message, or why it was refused.
+ */
+export function scheduleOneOffMessage(
+  accountSid: string,
+  contact: Contact,
+  body: string,
+  sendAt: Date
+): { message: ScheduledMessage } | { error: string } {
+  if (contact.optedOut) {
+    return { error: `${contact.name} has opted out of SMS.` };
+  }
+
+  const timeZone = getContactScheduleOptions(accountSid, contact).timeZone || getServerTimeZone();
+  const year = getZonedParts(sendAt, timeZone).year;
+  const messageBody = renderForContact(accountSid, contact, body, year);
+  const overBudget = budgetError(accountSid, contact.phone, messageBody, sendAt);
+  if (overBudget) return { error: overBudget };
+
+  const message: ScheduledMessage = {
+    id: uuidv4(),
+    contactId: contact.id,
+    contactName: contact.name,
+    phone: contact.phone,
+    messageBody,
+    scheduledFor: sendAt.toISOString(),
+    status: 'scheduled',
+    createdAt: new Date().toISOString(),
+    year,
+    custom: true,
+  };
+  addMessage(accountSid, message);
+  return { message };
+}
+
+/**
+ * Move a scheduled message to a new time. Like a budget deferral, the
+ * original time is kept in deferredFrom so contact edits leave it alone.
+ */
+export function rescheduleMessage(
+  accountSid: string,
+  message: ScheduledMessage,
+  sendAt: Date
+): { message: ScheduledMessage } | { error: string } {
+  // It already counts against the budget of the month it is in
+  if (monthKey(sendAt) !== monthKey(new Date(message.scheduledFor))) {
+    const overBudget = budgetError(accountSid, message.phone, message.messageBody, sendAt);
+    if (overBudget) return { error: overBudget };
+  }
+
+  const updates: Partial<ScheduledMessage> = {
+    scheduledFor: sendAt.toISOString(),
+    deferredFrom: message.deferredFrom || message.scheduledFor,
+    deferralReason: RESCHEDULED_REASON,
+    pendingReason: undefined,
+  };
+  // An occasion message stays the greeting for its year; a one-off moves
+  if (message.custom) {
+    const contact = getContact(accountSid, message.contactId);
+    const timeZone =
+      (contact && getContactScheduleOptions(accountSid, contact).timeZone) ||
+      getServerTimeZone();
+    updates.year = getZonedParts(sendAt, timeZone).year;
+  }
+  updateMessage(accountSid, message.id, updates);
+  return { message: { ...message, ...updates } };
+}
+
+export function scheduleAllContacts(accountSid: string): ScheduledMessage[] {
+  // One write for the whole account rather than one per contact
+  return transaction(() => {
+    const scheduled: ScheduledMessage[] = [];
+    const ledger = createSpendLedger(accountSid);
+    for (const contact of getContacts(accountSid)) {
+      scheduled.push(...scheduleMessagesForContact(accountSid, contact.id, ledger));
+    }
+    return scheduled;
+  });
+}
+
+// Retries after a retryable failure: 2, 4, 8, 16 then 30 minutes apart,
+// never past the end of the recipient's day or 6 hours after the first try
+export const RETRY_MAX_ATTEMPTS = 6;
+export const RETRY_BASE_DELAY_MS = 2 * 60 * 1000;
+export const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+export const RETRY_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * When to try a failed message again, or null when it should stay failed.
+ * attempts includes the one that just failed.
+ */
+export function nextRetryTime(
+  attempts: SendAttempt[],
+  timeZone: string,
+  now: Date = new Date()
+): Date | null {
+  const last = attempts[attempts.length - 1];
+  if (!last || !last.retryable || attempts.length >= RETRY_MAX_ATTEMPTS) return null;
+
+  // A birthday message is only worth sending on the day it was meant for
+  const first = new Date(attempts[0].at);
+  const local = getZonedParts(first, timeZone);
+  const nextDay = new Date(Date.UTC(local.year, local.month - 1, local.day + 1));
+  const endOfDay = zonedTimeToUtc(
+    nextDay.getUTCFullYear(),
+    nextDay.getUTCMonth() + 1,
+    nextDay.getUTCDate(),
+    0,
+    0,
+    timeZone
+  );
+  const deadline = Math.min(endOfDay.getTime(), first.getTime() + RETRY_MAX_AGE_MS);
+
+  const delay = Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** (attempts.length - 1),
+    RETRY_MAX_DELAY_MS
+  );
+  const retryAt = new Date(now.getTime() + delay);
+  return retryAt.getTime() < deadline ? retryAt : null;
+}
+
+/**
+ * Mark due messages more than the account's catchUpHours late as missed
+ * (e.g. the server was down) instead of sending them all at once, days
+ * late, and schedule the contacts' next ones. Returns the rest. Lateness
+ * counts from scheduledFor, which quiet-hours, retry and budget deferrals
+ * set on purpose however far it is from the original time.
+ */
+function markMissed(
+  accountSid: string,
+  due: ScheduledMessage[],
+  now: Date
+): ScheduledMessage[] {
+  const { catchUpHours } = getSettings(accountSid);
+  const cutoff = now.getTime() - catchUpHours * 60 * 60 * 1000;
+  const onTime = due.filter((m) => new Date(m.scheduledFor).getTime() >= cutoff);
+  const missed = due.filter((m) => new Date(m.scheduledFor).getTime() < cutoff);
+  if (missed.length === 0) return onTime;
+
+  transaction(() => {
+    for (const msg of missed) {
+      updateMessage(accountSid, msg.id, {
+        status: 'missed',
+        pendingReason: undefined,
+        retryPending: undefined,
+      });
+    }
+    const ledger = createSpendLedger(accountSid);
+    for (const contactId of new Set(missed.map((m) => m.contactId))) {
+      scheduleMessagesForContact(accountSid, contactId, ledger);
+    }
+  });
+  console.warn(
+    `Marked ${missed.length} message(s) more than ${catchUpHours}h overdue as missed instead of sending them late.`
+  );
+  return onTime;
+}
+
+/**
+ * Move due messages that would reach their recipient during quiet hours to
+ * the end of the window, noting why. Returns the ones that can go now.
+ */
+function deferQuietHours(
+  accountSid: string,
+  due: ScheduledMessage[],
+  now: Date
+): ScheduledMessage[] {
+  const sendable: ScheduledMessage[] = [];
+  transaction(() => {
+    for (const msg of due) {
+      const contact = getContact(accountSid, msg.contactId);
+      const quiet = recipientQuietHours(accountSid, msg.phone, contact, now);
+      if (!quiet) {
+        sendable.push(msg);
+        continue;
+      }
       console.log(
-        `Processing birthday message for ${msg.contactName} (${msg.phone})`
-      );
-      updateMessage(msg.id, { status: 'sending' });
-
-      const result = await sendBirthdaySms(
-        bundle,
-        'scheduler',
-        msg.contactId,
-        msg.phone,
-        msg.messageBody
+        `Quiet hours for ${msg.contactName} (${quiet.localTime} in ${quiet.timeZone}); ` +
+          `deferring to ${quiet.until.toISOString()}`
       );
+      updateMessage(accountSid, msg.id, {
+        scheduledFor: quiet.until.toISOString(),
+        deferredFrom: msg.deferredFrom || msg.scheduledFor,
+        deferralReason: `Quiet hours (${quiet.window.start}-${quiet.window.end} recipient time)`,
+        pendingReason: undefined,
+      });
+    }
+  });
+  return sendable;
+}
+
+/** One scheduler tick: send, defer or mark missed every due message. */
+export async function processDueMessages(): Promise<void> {
+  // One account's bad data must not hold up the others
+  for (const accountSid of getAccountSids()) {
+    try {
+      await processDueMessagesForAccount(accountSid);
+    } catch (err) {
+      console.error(`Scheduler error for account ${accountSid}:`, err);
+    }
+  }
+}
+
+async function processDueMessagesForAccount(accountSid: string): Promise<void> {
+  const now = new Date();
+  const overdue = getMessages(accountSid, { status: 'scheduled', dueBy: now });
+  const due = deferQuietHours(accountSid, markMissed(accountSid, overdue, now), now);
+  if (due.length === 0) return;
 
-      if (result.success) {
-        updateMessage(msg.id, {
-          status: 'sent',
-          notificationSid: result.notificationSid,
-          sentAt: new Date().toISOString(),
-        });
-
-        setTimeout(() => {
-          updateMessage(msg.id, {
-            status: 'delivered',
-            deliveredAt: new Date().toISOString(),
-          });
-        }, 5000);
-
-        const contacts = getContacts();
-        const contact = contacts.find((c) => c.id === msg.contactId);
-        if (contact) {
-          scheduleMessagesForContact(contact.id);
-        }
-      } else {
-        updateMessage(msg.id, {
-          status: 'failed',
-          errorMessage: result.error,
-        });
+  // Always send as the account that owns the contact
+  const bundle = getClientForAccount(accountSid);
+  if (!bundle) {
+    for (const msg of due) {
+      if (msg.pendingReason !== AWAITING_CREDENTIALS) {
+        updateMessage(accountSid, msg.id, { pendingReason: AWAITING_CREDENTIALS });
       }
     }
+    return;
+  }
+
+  // Claim the whole batch so an overlapping tick cannot pick it up too
+  transaction(() => {
+    for (const msg of due) {
+      updateMessage(accountSid, msg.id, { status: 'sending', pendingReason: undefined });
+    }
+  });
+
+  for (const msg of due) {
+    console.log(
+      `Processing ${msg.custom ? 'one-off' : msg.occasionType || 'birthday'} message for ${msg.contactName} (${msg.phone})`
+    );
+    // Written out before the API call: after a crash, a 'sending' message
+    // with this set may have gone out, one without it certainly has not
+    const attemptedAt = new Date().toISOString();
+    transaction(() => updateMessage(accountSid, msg.id, { sendAttemptedAt: attemptedAt }));
+
+    const result = await sendSms(
+      bundle,
+      `scheduler:${accountSid}`,
+      msg.contactId,
+      msg.phone,
+      msg.messageBody,
+      msg.id
+    );
+
+    const attempts = [...(msg.attempts || []), toSendAttempt(result, attemptedAt)];
+    const contact = getContact(accountSid, msg.contactId);
+
+    if (result.success) {
+      updateMessage(accountSid, msg.id, {
+        status: 'sent',
+        notificationSid: result.notificationSid,
+        sentAt: new Date().toISOString(),
+        pendingReason: undefined,
+        errorMessage: undefined,
+        errorCode: undefined,
+        retryPending: undefined,
+        attempts,
+      });
+
+      if (contact) {
+        scheduleMessagesForContact(accountSid, contact.id);
+      }
+      continue;
+    }
+
+    const timeZone =
+      (contact && getContactScheduleOptions(accountSid, contact).timeZone) ||
+      getServerTimeZone();
+    const retryAt = nextRetryTime(attempts, timeZone);
+    if (retryAt) {
+      console.warn(
+        `Send to ${msg.contactName} failed (${result.error}); retrying at ${retryAt.toISOString()}`
+      );
+      updateMessage(accountSid, msg.id, {
+        status: 'scheduled',
+        scheduledFor: retryAt.toISOString(),
+        // Keeps rescheduleContact from moving it back to the birthday time
+        deferredFrom: msg.deferredFrom || msg.scheduledFor,
+        deferralReason: `Retry ${attempts.length} of ${RETRY_MAX_ATTEMPTS - 1} after: ${result.error}`,
+        retryPending: true,
+        sendAttemptedAt: undefined,
+        pendingReason: undefined,
+        errorMessage: result.error,
+        errorCode: result.errorCode,
+        attempts,
+      });
+    } else {
+      const gaveUp = result.retryable
+        ? ` (gave up after ${attempts.length} attempt${attempts.length === 1 ? '' : 's'})`
+        : '';
+      updateMessage(accountSid, msg.id, {
+        status: 'failed',
+        errorMessage: `${result.error}${gaveUp}`,
+        errorCode: result.errorCode,
+        pendingReason: undefined,
+        retryPending: undefined,
+        attempts,
+      });
+    }
   }
 }
 
 export function startScheduler(): void {
+  // Bring older data into the occasion shape, then settle sends cut off by
+  // the last shutdown before sending anything new
+  migrateOccasions();
+  recoverInterruptedSends();
+
   cron.schedule('* * * * *', async () => {
     try {
       await processDueMessages();
@@ -152,7 +851,13 @@ export function startScheduler(): void {
     }
   });
 
-  scheduleAllContacts();
+  for (const accountSid of getAccountSids()) {
+    try {
+      scheduleAllContacts(accountSid);
+    } catch (err) {
+      console.error(`Could not schedule messages for account ${accountSid}:`, err);
+    }
+  }
 
   console.log('Birthday message scheduler started (checks every minute).');
 }
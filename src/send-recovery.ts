@@ -0,0 +1,98 @@
+/**
+ * Startup recovery of messages left in 'sending' by a crash or restart.
+ *
+ * Only this process sends, so at startup every 'sending' message is stale.
+ * Each one is settled without risking a second copy of the birthday SMS:
+ *
+ * - Twilio evidence (a stored notification or message SID, or a delivery
+ *   callback) means it went out, so it becomes 'sent'. Notify has no
+ *   endpoint to look a notification up, so a stored SID is itself the
+ *   proof that Twilio accepted it.
+ * - No send attempt recorded means the API was never called, so it goes
+ *   back to 'scheduled' and the next tick sends it.
+ * - Otherwise it may or may not have gone out. It is failed with an
+ *   explanation rather than retried; a late delivery callback still moves
+ *   it to 'sent' or 'delivered'.
+ */
+import { getAccountSids, getMessages, transaction, updateMessage } from './store';
+import { ScheduledMessage } from './types';
+
+export const INTERRUPTED_SEND_ERROR =
+  'The server stopped while this message was being sent and Twilio never confirmed it. ' +
+  'It was not retried so the birthday message cannot go out twice; check with the ' +
+  'recipient and use Send now if it did not arrive.';
+
+export interface SendRecoverySummary {
+  sent: number;
+  rescheduled: number;
+  failed: number;
+}
+
+function hasTwilioEvidence(message: ScheduledMessage): boolean {
+  return Boolean(
+    message.notificationSid ||
+      message.messageSid ||
+      (message.deliveryEvents && message.deliveryEvents.length > 0)
+  );
+}
+
+/**
+ * How a message found in 'sending' is settled, by the rules above. Also
+ * used for such messages in a restored backup.
+ */
+export function settleInterruptedSend(message: ScheduledMessage): {
+  outcome: keyof SendRecoverySummary;
+  updates: Partial<ScheduledMessage>;
+} {
+  if (hasTwilioEvidence(message)) {
+    return {
+      outcome: 'sent',
+      updates: {
+        status: 'sent',
+        sentAt: message.sentAt || message.sendAttemptedAt || new Date().toISOString(),
+      },
+    };
+  }
+  if (!message.sendAttemptedAt) {
+    return { outcome: 'rescheduled', updates: { status: 'scheduled' } };
+  }
+  return {
+    outcome: 'failed',
+    updates: {
+      status: 'failed',
+      errorMessage: INTERRUPTED_SEND_ERROR,
+      sendInterrupted: true,
+    },
+  };
+}
+
+export function recoverInterruptedSends(): SendRecoverySummary {
+  const summary: SendRecoverySummary = { sent: 0, rescheduled: 0, failed: 0 };
+
+  for (const accountSid of getAccountSids()) {
+    const stale = getMessages(accountSid, { status: 'sending' });
+    if (stale.length === 0) continue;
+
+    transaction(() => {
+      for (const message of stale) {
+        const { outcome, updates } = settleInterruptedSend(message);
+        updateMessage(accountSid, message.id, updates);
+        summary[outcome]++;
+        if (outcome === 'failed') {
+          console.warn(
+            `Message to ${message.contactName} (${message.phone}) was interrupted mid-send; marked failed, not retried.`
+          );
+        }
+      }
+    });
+  }
+
+  const total = summary.sent + summary.rescheduled + summary.failed;
+  if (total > 0) {
+    console.warn(
+      `Recovered ${total} message(s) stuck in "sending": ${summary.sent} confirmed sent, ` +
+        `${summary.rescheduled} back to scheduled, ${summary.failed} failed as unconfirmed.`
+    );
+  }
+  return summary;
+}
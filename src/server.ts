@@ -3,33 +3,129 @@ import session from 'express-session';
 import path from 'path';
 import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
-import { validateAndFormatPhone } from './phone';
 import {
+  PhoneValidationResult,
+  defaultTimeZoneForPhone,
+  validateAndFormatPhone,
+} from './phone';
+import {
+  validateName,
+  parseBirthday,
+  parseOccasionDate,
+  phoneWarning,
+  buildContact,
+} from './contacts';
+import { isValidTimeZone, parseSendTime } from './timezone';
+import {
+  ensureAccount,
   addContact,
+  addContacts,
+  updateContact,
   removeContact,
   getContacts,
   getMessages,
+  getMessage,
   updateMessage,
   addMessage,
+  getSettings,
+  updateSettings,
+  getContact,
+  transaction,
+  findContactByPhone,
+  getTemplates,
+  getTemplate,
+  addTemplate,
+  updateTemplate,
+  removeTemplate,
+  markConversationRead,
 } from './store';
 import {
   createTwilioClientBundle,
   createSmsBinding,
-  sendBirthdaySms,
+  removeSmsBinding,
+  sendSms,
+  toSendAttempt,
   isTwilioConfigured,
   ensureNotifyService,
+  verifyCredentials,
   setSessionClient,
   getSessionClient,
   removeSessionClient,
+  getStatusCallbackUrl,
+  getPublicBaseUrl,
+  getActiveClientForAccount,
 } from './sms-service';
+import { createTwilioWebhookGuard } from './twilio-signature';
+import {
+  isVaultEnabled,
+  storeCredentials,
+  getStoredCredentials,
+} from './credential-vault';
+import { parseStatusCallback, applyStatusCallback } from './delivery-status';
+import { describeTwilioError } from './twilio-errors';
+import { handleInboundSms } from './opt-out';
+import { recipientQuietHours } from './quiet-hours';
+import {
+  BIRTHDAY_OCCASION_ID,
+  OCCASION_TYPES,
+  getBirthdayOccasion,
+  getOccasion,
+  getOccasions,
+  messageOccasionId,
+  occasionDate,
+  occasionLabel,
+  withOccasion,
+  withoutOccasion,
+} from './occasions';
+import { bindingTags, broadcastToGroup, getGroupMembers, listGroups, parseGroups } from './groups';
+import {
+  MAX_REPLY_LENGTH,
+  getConversation,
+  getUnreadCounts,
+  recordInboundSms,
+} from './conversation';
 import {
   scheduleMessagesForContact,
   scheduleAllContacts,
+  rescheduleContact,
+  rerenderScheduledMessages,
+  reconcileContactMessages,
   generateBirthdayMessage,
-  interpolateName,
+  getNextOccasionYear,
+  templateOccasion,
+  pickTemplateBody,
+  renderForContact,
+  generateBelatedMessage,
+  parseOneOffTime,
+  scheduleOneOffMessage,
+  rescheduleMessage,
   startScheduler,
 } from './scheduler';
-import { Contact, ScheduledMessage, SessionCredentials } from './types';
+import { findUnknownPlaceholders } from './templates';
+import { analyzeSms, analyzeTrialSms } from './sms-segments';
+import { DEFAULT_CSV_MAPPING, CsvColumnMapping, prepareImport } from './contact-import';
+import { buildForecast } from './forecast';
+import { createSpendLedger } from './pricing';
+import { parseSettingsUpdate } from './settings';
+import { getStorage } from './storage';
+import { contactsToCsv, contactsToVCard, messagesToCsv } from './export';
+import {
+  BackupArchive,
+  ConflictStrategy,
+  ContactMatchKey,
+  createBackup,
+  restoreBackup,
+  validateBackup,
+} from './backup';
+import {
+  Contact,
+  MessageTemplate,
+  Occasion,
+  OccasionType,
+  ScheduledMessage,
+  SessionCredentials,
+  TemplateMode,
+} from './types';
 
 // Extend express-session to include our credentials
 declare module 'express-session' {
@@ -41,7 +137,10 @@ declare module 'express-session' {
 const app = express();
 const PORT = parseInt(process.env.PORT || '3000', 10);
 
-app.use(express.json());
+// Bulk imports and backup restores post whole files as JSON
+app.use(express.json({ limit: '20mb' }));
+// Twilio webhooks post application/x-www-form-urlencoded bodies
+app.use(express.urlencoded({ extended: false }));
 
 // Session middleware
 app.use(
@@ -87,9 +186,17 @@ app.post('/api/auth/login', async (req, res) => {
   };
 
   try {
-    // Create a Twilio client and validate by creating/fetching the notify service
+    // Check the token with Twilio before it can reach the account's data
     const bundle = createTwilioClientBundle(creds);
     const sessionId = req.sessionID;
+    if (!(await verifyCredentials(bundle))) {
+      res.status(401).json({
+        error: 'Authentication failed. Please verify your Twilio credentials.',
+      });
+      return;
+    }
+
+    ensureAccount(creds.accountSid);
     const serviceSid = await ensureNotifyService(bundle, sessionId);
 
     if (!serviceSid) {
@@ -103,6 +210,9 @@ app.post('/api/auth/login', async (req, res) => {
     creds.notifyServiceSid = serviceSid;
     req.session.credentials = creds;
     setSessionClient(sessionId, bundle);
+    // Keep an encrypted copy so scheduled sends work after logout. Only
+    // credentials Twilio accepted above may replace the stored ones.
+    storeCredentials(creds);
 
     res.json({
       success: true,
@@ -140,6 +250,62 @@ app.get('/api/auth/status', (req, res) => {
   }
 });
 
+// ─── Twilio Webhooks (signature-validated) ──────────────────────
+
+// Webhooks carry no session; validate against the auth token of the
+// account the callback claims to come from. Only tokens Twilio accepted
+// count: the vault's, else a live session's (login checks it first).
+app.use(
+  '/webhooks',
+  createTwilioWebhookGuard({
+    getAuthToken: (accountSid) =>
+      getStoredCredentials(accountSid)?.authToken ||
+      getActiveClientForAccount(accountSid)?.credentials.authToken,
+    publicBaseUrl: getPublicBaseUrl(),
+  })
+);
+
+app.post('/webhooks/status', (req, res) => {
+  const callback = parseStatusCallback(req.body || {}, req.query);
+  if (!callback) {
+    res.status(400).json({ error: 'Missing status or message SID.' });
+    return;
+  }
+
+  const updated = applyStatusCallback(callback);
+  if (!updated) {
+    console.warn(
+      `Status callback for unknown message ${
+        callback.notificationSid || callback.messageSid || callback.messageId
+      }`
+    );
+  }
+  // Always acknowledge so Twilio does not retry callbacks we cannot match
+  res.status(204).end();
+});
+
+// Configure as the "A message comes in" webhook of the sending number(s)
+app.post('/webhooks/inbound', (req, res) => {
+  const { AccountSid, From, Body } = req.body || {};
+  if (!AccountSid || !From) {
+    res.status(400).json({ error: 'Missing AccountSid or From.' });
+    return;
+  }
+
+  recordInboundSms(AccountSid, {
+    from: From,
+    to: req.body.To,
+    body: Body || '',
+    messageSid: req.body.MessageSid || req.body.SmsSid,
+  });
+  const { contact, keyword } = handleInboundSms(AccountSid, From, Body || '');
+  if (keyword && !contact) {
+    console.warn(`Opt ${keyword === 'opt-out' ? 'out' : 'in'} from unknown number ${From}`);
+  }
+  // Empty TwiML: Twilio sends the standard STOP/START confirmations itself
+  res.type('text/xml').send('<Response></Response>');
+});
+
 // ─── Auth Guard Middleware ───────────────────────────────────────
 
 function authGuard(
@@ -183,25 +349,84 @@ function getBundle(req: express.Request) {
   return getSessionClient(req.sessionID);
 }
 
+// Returns an error message, or null when the template choice is valid
+function validateTemplateChoice(
+  accountSid: string,
+  templateMode: unknown,
+  templateId: unknown
+): string | null {
+  if (templateMode !== undefined && templateMode !== 'random' && templateMode !== 'fixed') {
+    return 'templateMode must be "random" or "fixed".';
+  }
+  if (templateMode === 'fixed' && !templateId) {
+    return 'templateId is required when templateMode is "fixed".';
+  }
+  if (templateId && !getTemplate(accountSid, String(templateId))) {
+    return 'Template not found.';
+  }
+  return null;
+}
+
+function validateOccasionType(occasionType: unknown): string | null {
+  if (occasionType && !OCCASION_TYPES.includes(occasionType as OccasionType)) {
+    return `occasionType must be one of: ${OCCASION_TYPES.join(', ')}.`;
+  }
+  return null;
+}
+
+// Returns an error message, or null when the template name/body are valid
+function validateTemplateFields(name: unknown, body: unknown): string | null {
+  if (name !== undefined) {
+    const safeName = String(name).trim();
+    if (safeName.length === 0 || safeName.length > 100) {
+      return 'Template name must be 1-100 characters.';
+    }
+  }
+  if (body !== undefined) {
+    const safeBody = String(body).trim();
+    if (safeBody.length === 0 || safeBody.length > 1600) {
+      return 'Template body must be 1-1600 characters.';
+    }
+    const unknown = findUnknownPlaceholders(safeBody);
+    if (unknown.length > 0) {
+      return `Unknown placeholder(s): ${unknown.map((u) => `{{${u}}}`).join(', ')}.`;
+    }
+  }
+  return null;
+}
+
+// Only valid behind authGuard, which guarantees session credentials
+function getAccountSid(req: express.Request): string {
+  return req.session.credentials!.accountSid;
+}
+
 // ─── API Routes ─────────────────────────────────────────────────
 
 app.get('/api/status', (req, res) => {
+  const accountSid = getAccountSid(req);
   res.json({
     twilioConfigured: isTwilioConfigured(req.sessionID),
-    contactCount: getContacts().length,
-    scheduledCount: getMessages().filter((m) => m.status === 'scheduled').length,
+    contactCount: getContacts(accountSid).length,
+    scheduledCount: getMessages(accountSid).filter((m) => m.status === 'scheduled').length,
+    unreadCount: [...getUnreadCounts(accountSid).values()].reduce((sum, n) => sum + n, 0),
     accountSid: req.session.credentials
       ? maskSid(req.session.credentials.accountSid)
       : null,
   });
 });
 
-app.get('/api/contacts', (_req, res) => {
-  res.json(getContacts());
+app.get('/api/contacts', (req, res) => {
+  const accountSid = getAccountSid(req);
+  const unread = getUnreadCounts(accountSid);
+  res.json(
+    getContacts(accountSid).map((c) => ({ ...c, unreadCount: unread.get(c.id) || 0 }))
+  );
 });
 
 app.post('/api/contacts', async (req, res) => {
-  const { name, phone, birthday } = req.body;
+  const accountSid = getAccountSid(req);
+  const { name, phone, birthday, timeZone, sendTime, templateMode, templateId, groups } =
+    req.body;
 
   if (!name || !phone || !birthday) {
     res.status(400).json({ error: 'Name, phone, and birthday are required.' });
@@ -209,12 +434,16 @@ app.post('/api/contacts', async (req, res) => {
   }
 
   const safeName = String(name).trim();
-  if (safeName.length === 0 || safeName.length > 100) {
-    res.status(400).json({ error: 'Name must be 1-100 characters.' });
+  const nameError = validateName(safeName);
+  if (nameError) {
+    res.status(400).json({ error: nameError });
     return;
   }
 
-  const phoneResult = validateAndFormatPhone(String(phone));
+  const phoneResult = validateAndFormatPhone(
+    String(phone),
+    getSettings(accountSid).defaultRegion
+  );
   if (!phoneResult.valid || !phoneResult.formatted) {
     res.status(400).json({
       error: phoneResult.error || 'Invalid phone number.',
@@ -222,23 +451,35 @@ app.post('/api/contacts', async (req, res) => {
     return;
   }
 
-  const bdayStr = String(birthday);
-  const bdayMatch = bdayStr.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-  if (!bdayMatch) {
-    res.status(400).json({ error: 'Birthday must be in YYYY-MM-DD format.' });
+  const bday = parseBirthday(String(birthday));
+  if ('error' in bday) {
+    res.status(400).json({ error: bday.error });
     return;
   }
 
-  const month = parseInt(bdayMatch[2], 10);
-  const day = parseInt(bdayMatch[3], 10);
-  if (month < 1 || month > 12 || day < 1 || day > 31) {
-    res.status(400).json({ error: 'Invalid birthday date.' });
+  if (timeZone && !isValidTimeZone(String(timeZone))) {
+    res.status(400).json({ error: `Unknown time zone "${timeZone}".` });
     return;
   }
 
-  const existing = getContacts().find(
-    (c) => c.phone === phoneResult.formatted
-  );
+  if (sendTime && !parseSendTime(String(sendTime))) {
+    res.status(400).json({ error: 'Send time must be in HH:MM (24-hour) format.' });
+    return;
+  }
+
+  const templateError = validateTemplateChoice(accountSid, templateMode, templateId);
+  if (templateError) {
+    res.status(400).json({ error: templateError });
+    return;
+  }
+
+  const parsedGroups = groups === undefined ? { groups: [] } : parseGroups(groups);
+  if ('error' in parsedGroups) {
+    res.status(400).json({ error: parsedGroups.error });
+    return;
+  }
+
+  const existing = findContactByPhone(accountSid, phoneResult.formatted);
   if (existing) {
     res.status(409).json({
       error: `A contact with this phone number already exists (${existing.name}).`,
@@ -246,34 +487,270 @@ app.post('/api/contacts', async (req, res) => {
     return;
   }
 
-  const contact: Contact = {
-    id: uuidv4(),
+  const contact = buildContact({
     name: safeName,
-    phone: phoneResult.formatted,
-    birthday: `${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`,
-    birthdayFull: bdayStr,
-    createdAt: new Date().toISOString(),
-  };
+    phone: { ...phoneResult, formatted: phoneResult.formatted },
+    birthday: bday,
+    timeZone: timeZone ? String(timeZone) : undefined,
+    sendTime: sendTime ? String(sendTime) : undefined,
+    templateMode,
+    templateId: templateId ? String(templateId) : undefined,
+    groups: parsedGroups.groups,
+  });
 
-  addContact(contact);
+  addContact(accountSid, contact);
 
   const bundle = getBundle(req);
   if (bundle) {
-    await createSmsBinding(bundle, req.sessionID, contact.id, contact.phone);
+    const bindingSid = await createSmsBinding(
+      bundle,
+      req.sessionID,
+      contact.id,
+      contact.phone,
+      bindingTags(contact)
+    );
+    if (bindingSid) {
+      contact.bindingSid = bindingSid;
+      updateContact(accountSid, contact.id, { bindingSid });
+    }
   }
 
-  const scheduled = scheduleMessagesForContact(contact.id);
+  const scheduled = scheduleMessagesForContact(accountSid, contact.id);
 
   res.status(201).json({
     contact,
     scheduled,
     phoneFormatted: phoneResult.formatted,
-    countryHint: phoneResult.countryHint,
+    country: phoneResult.country,
+    numberType: phoneResult.numberType,
+    warning: phoneWarning(phoneResult),
+  });
+});
+
+app.post('/api/contacts/import', async (req, res) => {
+  const accountSid = getAccountSid(req);
+  const { format, content, mapping, mode = 'dry-run' } = req.body;
+
+  if (format !== 'csv' && format !== 'vcard') {
+    res.status(400).json({ error: 'Format must be "csv" or "vcard".' });
+    return;
+  }
+  if (typeof content !== 'string' || content.trim().length === 0) {
+    res.status(400).json({ error: 'File content is required.' });
+    return;
+  }
+  if (mode !== 'dry-run' && mode !== 'commit') {
+    res.status(400).json({ error: 'Mode must be "dry-run" or "commit".' });
+    return;
+  }
+
+  let columns: CsvColumnMapping = DEFAULT_CSV_MAPPING;
+  if (mapping !== undefined) {
+    if (typeof mapping !== 'object' || mapping === null) {
+      res.status(400).json({ error: 'Column mapping must be an object.' });
+      return;
+    }
+    columns = { ...DEFAULT_CSV_MAPPING };
+    for (const field of Object.keys(DEFAULT_CSV_MAPPING) as (keyof CsvColumnMapping)[]) {
+      if (mapping[field] !== undefined) columns[field] = String(mapping[field]);
+    }
+  }
+
+  const result = prepareImport(accountSid, format, content, columns);
+  if ('error' in result) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+
+  const summary = {
+    total: result.rows.length,
+    created: result.contacts.length,
+    duplicate: result.rows.filter((r) => r.status === 'duplicate').length,
+    invalid: result.rows.filter((r) => r.status === 'invalid').length,
+  };
+
+  if (mode === 'dry-run') {
+    // Ids are only assigned on commit
+    res.json({
+      dryRun: true,
+      summary,
+      rows: result.rows.map(({ contactId, ...row }) => row),
+    });
+    return;
+  }
+
+  addContacts(accountSid, result.contacts);
+
+  const bundle = getBundle(req);
+  const ledger = createSpendLedger(accountSid);
+  let scheduled = 0;
+  for (const contact of result.contacts) {
+    if (bundle) {
+      const bindingSid = await createSmsBinding(
+        bundle,
+        req.sessionID,
+        contact.id,
+        contact.phone,
+        bindingTags(contact)
+      );
+      if (bindingSid) {
+        updateContact(accountSid, contact.id, { bindingSid });
+      }
+    }
+    scheduled += scheduleMessagesForContact(accountSid, contact.id, ledger).length;
+  }
+
+  res.status(201).json({ dryRun: false, summary, scheduled, rows: result.rows });
+});
+
+app.patch('/api/contacts/:id', async (req, res) => {
+  const accountSid = getAccountSid(req);
+  const { name, phone, birthday, timeZone, sendTime, templateMode, templateId, groups } =
+    req.body;
+
+  const current = getContact(accountSid, req.params.id);
+  if (!current) {
+    res.status(404).json({ error: 'Contact not found.' });
+    return;
+  }
+
+  const updates: Partial<Contact> = {};
+
+  if (name !== undefined) {
+    const safeName = String(name).trim();
+    const nameError = validateName(safeName);
+    if (nameError) {
+      res.status(400).json({ error: nameError });
+      return;
+    }
+    updates.name = safeName;
+  }
+
+  let phoneResult: PhoneValidationResult | undefined;
+  if (phone !== undefined) {
+    phoneResult = validateAndFormatPhone(String(phone), getSettings(accountSid).defaultRegion);
+    if (!phoneResult.valid || !phoneResult.formatted) {
+      res.status(400).json({ error: phoneResult.error || 'Invalid phone number.' });
+      return;
+    }
+
+    const duplicate = findContactByPhone(accountSid, phoneResult.formatted);
+    if (duplicate && duplicate.id !== current.id) {
+      res.status(409).json({
+        error: `A contact with this phone number already exists (${duplicate.name}).`,
+      });
+      return;
+    }
+
+    updates.phone = phoneResult.formatted;
+    updates.country = phoneResult.country;
+    updates.numberType = phoneResult.numberType;
+    updates.smsCapable = phoneResult.smsCapable;
+    // Follow the new country unless the zone was chosen explicitly
+    if (
+      timeZone === undefined &&
+      phoneResult.timeZone &&
+      current.timeZone === defaultTimeZoneForPhone(current.phone)
+    ) {
+      updates.timeZone = phoneResult.timeZone;
+    }
+  }
+
+  if (birthday !== undefined) {
+    const bday = parseBirthday(String(birthday));
+    if ('error' in bday) {
+      res.status(400).json({ error: bday.error });
+      return;
+    }
+    updates.birthday = bday.birthday;
+    updates.birthdayFull = bday.birthdayFull;
+  }
+
+  if (timeZone !== undefined && !isValidTimeZone(String(timeZone))) {
+    res.status(400).json({ error: `Unknown time zone "${timeZone}".` });
+    return;
+  }
+
+  // null clears the preferred send time back to the default
+  if (sendTime !== undefined && sendTime !== null && !parseSendTime(String(sendTime))) {
+    res.status(400).json({ error: 'Send time must be in HH:MM (24-hour) format.' });
+    return;
+  }
+
+  const templateError = validateTemplateChoice(accountSid, templateMode, templateId);
+  if (templateError) {
+    res.status(400).json({ error: templateError });
+    return;
+  }
+
+  if (groups !== undefined) {
+    const parsedGroups = parseGroups(groups);
+    if ('error' in parsedGroups) {
+      res.status(400).json({ error: parsedGroups.error });
+      return;
+    }
+    updates.groups = parsedGroups.groups.length ? parsedGroups.groups : undefined;
+  }
+
+  if (timeZone !== undefined) updates.timeZone = String(timeZone);
+  if (sendTime !== undefined) updates.sendTime = sendTime === null ? undefined : String(sendTime);
+  // The template choice here is the birthday's; other occasions have their own
+  if (templateMode !== undefined || templateId !== undefined) {
+    const birthday = { ...getBirthdayOccasion(current) };
+    if (templateMode !== undefined) birthday.templateMode = templateMode;
+    if (templateId !== undefined) birthday.templateId = templateId ? String(templateId) : undefined;
+    Object.assign(updates, withOccasion(current, birthday));
+  }
+
+  const phoneChanged = updates.phone !== undefined && updates.phone !== current.phone;
+  const birthdayChanged =
+    updates.birthdayFull !== undefined && updates.birthdayFull !== current.birthdayFull;
+  const groupsChanged =
+    groups !== undefined &&
+    (updates.groups || []).join(',') !== (current.groups || []).join(',');
+
+  // Point the Notify binding at the new number
+  const bundle = getBundle(req);
+  if (phoneChanged && bundle) {
+    if (current.bindingSid) {
+      await removeSmsBinding(bundle, req.sessionID, current.bindingSid);
+    }
+    const bindingSid = await createSmsBinding(
+      bundle,
+      req.sessionID,
+      current.id,
+      updates.phone!,
+      bindingTags({ ...current, ...updates })
+    );
+    updates.bindingSid = bindingSid || undefined;
+  }
+
+  let contact = updateContact(accountSid, current.id, updates);
+  if (!contact) {
+    res.status(404).json({ error: 'Contact not found.' });
+    return;
+  }
+  if (groupsChanged && !phoneChanged) {
+    contact = await syncBindingTags(req, contact);
+  }
+
+  const rescheduled = rescheduleContact(accountSid, contact.id);
+  const reconciled = reconcileContactMessages(accountSid, contact.id, {
+    datesChanged: birthdayChanged ? [BIRTHDAY_OCCASION_ID] : [],
+    rerender:
+      updates.name !== undefined || templateMode !== undefined || templateId !== undefined,
+  });
+
+  res.json({
+    contact,
+    rescheduled,
+    reconciled,
+    warning: phoneResult ? phoneWarning(phoneResult) : undefined,
   });
 });
 
 app.delete('/api/contacts/:id', (req, res) => {
-  const removed = removeContact(req.params.id);
+  const removed = removeContact(getAccountSid(req), req.params.id);
   if (!removed) {
     res.status(404).json({ error: 'Contact not found.' });
     return;
@@ -281,10 +758,266 @@ app.delete('/api/contacts/:id', (req, res) => {
   res.json({ success: true });
 });
 
+/**
+ * Re-register a contact's binding so its tags match their occasions and
+ * groups. Notify updates the binding for the same identity and number in
+ * place; if it returns a different SID the old binding is removed.
+ */
+async function syncBindingTags(req: express.Request, contact: Contact): Promise<Contact> {
+  const bundle = getBundle(req);
+  if (!bundle) return contact;
+
+  const bindingSid = await createSmsBinding(
+    bundle,
+    req.sessionID,
+    contact.id,
+    contact.phone,
+    bindingTags(contact)
+  );
+  if (!bindingSid || bindingSid === contact.bindingSid) return contact;
+  if (contact.bindingSid) {
+    await removeSmsBinding(bundle, req.sessionID, contact.bindingSid);
+  }
+  return updateContact(getAccountSid(req), contact.id, { bindingSid }) || contact;
+}
+
+// ─── Occasions ─────────────────────────────────────────────────
+
+// Validated occasion fields from a request body, or an error message.
+// null clears sendTime back to the contact's.
+function parseOccasionFields(
+  accountSid: string,
+  body: Record<string, unknown>,
+  type: OccasionType
+): { fields: Partial<Occasion> } | { error: string } {
+  const { label, date, sendTime, templateMode, templateId } = body;
+  const fields: Partial<Occasion> = {};
+
+  if (label !== undefined) {
+    const safeLabel = String(label).trim();
+    if (safeLabel.length > 50) return { error: 'Label must be at most 50 characters.' };
+    fields.label = safeLabel || undefined;
+  }
+
+  if (date !== undefined) {
+    if (type === 'birthday') {
+      return { error: 'The birthday date is changed with PATCH /api/contacts/:id.' };
+    }
+    const parsed = parseOccasionDate(String(date));
+    if ('error' in parsed) return { error: parsed.error };
+    fields.date = parsed.date;
+    fields.dateFull = parsed.dateFull;
+  }
+
+  if (sendTime !== undefined) {
+    if (sendTime !== null && !parseSendTime(String(sendTime))) {
+      return { error: 'Send time must be in HH:MM (24-hour) format.' };
+    }
+    fields.sendTime = sendTime === null ? undefined : String(sendTime);
+  }
+
+  const templateError = validateTemplateChoice(accountSid, templateMode, templateId);
+  if (templateError) return { error: templateError };
+  if (templateMode !== undefined) fields.templateMode = templateMode as TemplateMode;
+  if (templateId !== undefined) fields.templateId = templateId ? String(templateId) : undefined;
+
+  return { fields };
+}
+
+app.get('/api/contacts/:id/occasions', (req, res) => {
+  const contact = getContact(getAccountSid(req), req.params.id);
+  if (!contact) {
+    res.status(404).json({ error: 'Contact not found.' });
+    return;
+  }
+  res.json(getOccasions(contact));
+});
+
+app.post('/api/contacts/:id/occasions', async (req, res) => {
+  const accountSid = getAccountSid(req);
+  const contact = getContact(accountSid, req.params.id);
+  if (!contact) {
+    res.status(404).json({ error: 'Contact not found.' });
+    return;
+  }
+
+  const { type, date } = req.body;
+  if (!OCCASION_TYPES.includes(type)) {
+    res.status(400).json({ error: `type must be one of: ${OCCASION_TYPES.join(', ')}.` });
+    return;
+  }
+  if (type === 'birthday') {
+    res.status(400).json({ error: 'Every contact already has a birthday occasion.' });
+    return;
+  }
+  if (!date) {
+    res.status(400).json({ error: 'date is required.' });
+    return;
+  }
+
+  const parsed = parseOccasionFields(accountSid, req.body, type);
+  if ('error' in parsed) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+  if (type === 'custom' && !parsed.fields.label) {
+    res.status(400).json({ error: 'A label is required for custom occasions.' });
+    return;
+  }
+
+  const occasion: Occasion = {
+    templateMode: 'random',
+    ...parsed.fields,
+    id: uuidv4(),
+    type,
+  };
+  const updated = updateContact(accountSid, contact.id, withOccasion(contact, occasion))!;
+  const scheduled = scheduleMessagesForContact(accountSid, contact.id).filter(
+    (m) => m.occasionId === occasion.id
+  );
+  // Occasion types are binding tags
+  await syncBindingTags(req, updated);
+
+  res.status(201).json({ occasion, scheduled });
+});
+
+app.patch('/api/contacts/:id/occasions/:occasionId', (req, res) => {
+  const accountSid = getAccountSid(req);
+  const contact = getContact(accountSid, req.params.id);
+  const current = contact && getOccasion(contact, req.params.occasionId);
+  if (!contact || !current) {
+    res.status(404).json({ error: 'Occasion not found.' });
+    return;
+  }
+
+  const parsed = parseOccasionFields(accountSid, req.body, current.type);
+  if ('error' in parsed) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+  const occasion: Occasion = { ...current, ...parsed.fields };
+  if (occasion.type === 'custom' && !occasion.label) {
+    res.status(400).json({ error: 'A label is required for custom occasions.' });
+    return;
+  }
+
+  updateContact(accountSid, contact.id, withOccasion(contact, occasion));
+  const { label, date, templateMode, templateId } = req.body;
+  const reconciled = reconcileContactMessages(accountSid, contact.id, {
+    datesChanged:
+      date !== undefined && occasion.dateFull !== current.dateFull ? [occasion.id] : [],
+    rerender: label !== undefined || templateMode !== undefined || templateId !== undefined,
+  });
+  const rescheduled = rescheduleContact(accountSid, contact.id);
+
+  res.json({ occasion, reconciled, rescheduled });
+});
+
+// Cancels the occasion's scheduled messages; sent history is kept
+app.delete('/api/contacts/:id/occasions/:occasionId', async (req, res) => {
+  const accountSid = getAccountSid(req);
+  const contact = getContact(accountSid, req.params.id);
+  const occasion = contact && getOccasion(contact, req.params.occasionId);
+  if (!contact || !occasion) {
+    res.status(404).json({ error: 'Occasion not found.' });
+    return;
+  }
+  if (occasion.type === 'birthday') {
+    res.status(400).json({ error: 'The birthday occasion cannot be removed.' });
+    return;
+  }
+
+  const pending = getMessages(accountSid, { contactId: contact.id, status: 'scheduled' }).filter(
+    (m) => messageOccasionId(m) === occasion.id
+  );
+  const updated = transaction(() => {
+    for (const m of pending) updateMessage(accountSid, m.id, { status: 'cancelled' });
+    return updateContact(accountSid, contact.id, withoutOccasion(contact, occasion.id))!;
+  });
+  const cancelled = pending.length;
+  await syncBindingTags(req, updated);
+  res.json({ success: true, cancelled });
+});
+
+// ─── Conversations ──────────────────────────────────────────────
+
+// Opening the conversation marks the contact's replies as read
+app.get('/api/contacts/:id/conversation', (req, res) => {
+  const accountSid = getAccountSid(req);
+  const contact = getContact(accountSid, req.params.id);
+  if (!contact) {
+    res.status(404).json({ error: 'Contact not found.' });
+    return;
+  }
+
+  const entries = getConversation(accountSid, contact.id);
+  markConversationRead(accountSid, contact.id);
+  res.json({ contact, entries });
+});
+
+app.post('/api/contacts/:id/conversation', async (req, res) => {
+  const accountSid = getAccountSid(req);
+  const contact = getContact(accountSid, req.params.id);
+  if (!contact) {
+    res.status(404).json({ error: 'Contact not found.' });
+    return;
+  }
+
+  const body = typeof req.body.body === 'string' ? req.body.body.trim() : '';
+  if (!body) {
+    res.status(400).json({ error: 'Reply body is required.' });
+    return;
+  }
+  if (body.length > MAX_REPLY_LENGTH) {
+    res.status(400).json({ error: `Reply must be at most ${MAX_REPLY_LENGTH} characters.` });
+    return;
+  }
+
+  await sendToContact(req, res, contact, body, { reply: true });
+});
+
+// ─── Groups & Broadcasts ────────────────────────────────────────
+
+app.get('/api/groups', (req, res) => {
+  res.json(listGroups(getAccountSid(req)));
+});
+
+// One notification to the group's binding tag, recorded per member
+app.post('/api/groups/:group/broadcast', async (req, res) => {
+  const accountSid = getAccountSid(req);
+  const group = req.params.group.toLowerCase();
+  const members = getGroupMembers(accountSid, group);
+  if (members.length === 0) {
+    res.status(404).json({ error: `No contacts are in the group "${group}".` });
+    return;
+  }
+  if (members.every((c) => c.optedOut)) {
+    res.status(409).json({ error: `Everyone in "${group}" has opted out of SMS.` });
+    return;
+  }
+
+  const body = typeof req.body.body === 'string' ? req.body.body.trim() : '';
+  if (!body) {
+    res.status(400).json({ error: 'Message body is required.' });
+    return;
+  }
+  if (body.length > MAX_REPLY_LENGTH) {
+    res.status(400).json({ error: `Message must be at most ${MAX_REPLY_LENGTH} characters.` });
+    return;
+  }
+
+  const result = await broadcastToGroup(accountSid, getBundle(req), req.sessionID, group, body);
+  if (result.success) {
+    res.json({ ...result, skipped: members.length - result.messages.length });
+  } else {
+    res.status(500).json({ ...result, errorHelp: describeTwilioError(result.errorCode) });
+  }
+});
+
 // ─── Message Routes ─────────────────────────────────────────────
 
 app.get('/api/messages', (req, res) => {
-  let messages = getMessages();
+  let messages = getMessages(getAccountSid(req));
   const status = req.query.status as string | undefined;
   if (status) {
     messages = messages.filter((m) => m.status === status);
@@ -296,48 +1029,172 @@ app.get('/api/messages', (req, res) => {
   res.json(messages);
 });
 
-app.post('/api/messages/preview', (req, res) => {
-  const { name, template } = req.body;
-  if (!name) {
-    res.status(400).json({ error: 'Name is required for preview.' });
+// One-off message to one or more contacts at an exact time
+app.post('/api/messages', (req, res) => {
+  const accountSid = getAccountSid(req);
+  const { contactId, contactIds, scheduledFor } = req.body;
+
+  const ids: string[] = Array.isArray(contactIds)
+    ? Array.from(new Set(contactIds.map(String)))
+    : contactId
+      ? [String(contactId)]
+      : [];
+  if (ids.length === 0) {
+    res.status(400).json({ error: 'contactId or contactIds is required.' });
+    return;
+  }
+  const contacts = ids.map((id) => getContact(accountSid, id));
+  const missing = ids.filter((_, i) => !contacts[i]);
+  if (missing.length > 0) {
+    res.status(404).json({ error: `Contact(s) not found: ${missing.join(', ')}.` });
     return;
   }
 
-  const safeName = String(name).trim();
-  let messageBody: string;
+  const body = typeof req.body.body === 'string' ? req.body.body.trim() : '';
+  if (!body) {
+    res.status(400).json({ error: 'Message body is required.' });
+    return;
+  }
+  if (body.length > MAX_REPLY_LENGTH) {
+    res.status(400).json({ error: `Message must be at most ${MAX_REPLY_LENGTH} characters.` });
+    return;
+  }
+  const unknown = findUnknownPlaceholders(body);
+  if (unknown.length > 0) {
+    res.status(400).json({
+      error: `Unknown placeholder(s): ${unknown.map((u) => `{{${u}}}`).join(', ')}.`,
+    });
+    return;
+  }
+
+  const time = parseOneOffTime(scheduledFor);
+  if ('error' in time) {
+    res.status(400).json({ error: time.error });
+    return;
+  }
+
+  const scheduled: ScheduledMessage[] = [];
+  const skipped: { contactId: string; name: string; reason: string }[] = [];
+  transaction(() => {
+    for (const contact of contacts as Contact[]) {
+      const result = scheduleOneOffMessage(accountSid, contact, body, time.sendAt);
+      if ('error' in result) {
+        skipped.push({ contactId: contact.id, name: contact.name, reason: result.error });
+      } else {
+        scheduled.push(result.message);
+      }
+    }
+  });
+
+  if (scheduled.length === 0) {
+    res.status(409).json({ error: skipped.map((s) => s.reason).join(' '), skipped });
+    return;
+  }
+  res.status(201).json({ scheduled, skipped });
+});
+
+app.post('/api/messages/preview', (req, res) => {
+  const accountSid = getAccountSid(req);
+  const { name, birthday, contactId, occasionId, templateId, template } = req.body;
+
+  const contact = contactId ? getContact(accountSid, String(contactId)) : undefined;
+  if (contactId && !contact) {
+    res.status(404).json({ error: 'Contact not found.' });
+    return;
+  }
+  const occasion = contact
+    ? occasionId
+      ? getOccasion(contact, String(occasionId))
+      : getBirthdayOccasion(contact)
+    : undefined;
+  if (contact && !occasion) {
+    res.status(404).json({ error: 'Occasion not found.' });
+    return;
+  }
+  if (!contact && !name) {
+    res.status(400).json({ error: 'Name or contactId is required for preview.' });
+    return;
+  }
 
+  let templateBody: string;
   if (template) {
-    messageBody = interpolateName(String(template), safeName);
+    templateBody = String(template);
+    const unknown = findUnknownPlaceholders(templateBody);
+    if (unknown.length > 0) {
+      res.status(400).json({
+        error: `Unknown placeholder(s): ${unknown.map((u) => `{{${u}}}`).join(', ')}.`,
+      });
+      return;
+    }
+  } else if (templateId) {
+    const saved = getTemplate(accountSid, String(templateId));
+    if (!saved) {
+      res.status(404).json({ error: 'Template not found.' });
+      return;
+    }
+    templateBody = saved.body;
   } else {
-    messageBody = generateBirthdayMessage(safeName);
+    templateBody = pickTemplateBody(accountSid, occasion || {}, occasion?.type);
   }
 
+  // Render with the same values the scheduler will use
+  const subject = contact || {
+    name: String(name).trim(),
+    birthdayFull: birthday ? String(birthday) : '',
+  };
+  const year =
+    contact && occasion
+      ? getNextOccasionYear(accountSid, contact, occasion)
+      : new Date().getFullYear();
+  const messageBody = renderForContact(
+    accountSid,
+    subject,
+    templateBody,
+    year,
+    contact && occasion ? templateOccasion(contact, occasion) : undefined
+  );
+
+  const analysis = analyzeSms(messageBody);
+  const trialAnalysis = analyzeTrialSms(messageBody);
+
   res.json({
     preview: messageBody,
-    charCount: messageBody.length,
-    smsSegments: Math.ceil(messageBody.length / 160),
+    charCount: analysis.characters,
+    smsSegments: analysis.segmentCount,
+    encoding: analysis.encoding,
+    segments: analysis.segments,
+    ucs2Characters: analysis.ucs2Characters,
+    extendedCharacters: analysis.extendedCharacters,
+    trialPrefix: {
+      smsSegments: trialAnalysis.segmentCount,
+      encoding: trialAnalysis.encoding,
+      addedSegments: trialAnalysis.segmentCount - analysis.segmentCount,
+    },
     trialNote: isTwilioConfigured(req.sessionID)
       ? 'Note: On a free trial, messages will be prefixed with "Sent from your Twilio trial account - " and can only be sent to verified numbers.'
       : 'Twilio is not configured. Messages will be simulated.',
   });
 });
 
-app.post('/api/messages/send-now', async (req, res) => {
-  const { contactId, messageBody } = req.body;
-  if (!contactId) {
-    res.status(400).json({ error: 'contactId is required.' });
-    return;
-  }
-
-  const contacts = getContacts();
-  const contact = contacts.find((c) => c.id === contactId);
-  if (!contact) {
-    res.status(404).json({ error: 'Contact not found.' });
+/**
+ * Sends a message to a contact right away and responds with the stored
+ * record. Used by Send now and by replies from the conversation view.
+ */
+async function sendToContact(
+  req: express.Request,
+  res: express.Response,
+  contact: Contact,
+  body: string,
+  extra: Partial<ScheduledMessage> = {}
+): Promise<void> {
+  const accountSid = getAccountSid(req);
+  if (contact.optedOut) {
+    res.status(409).json({
+      error: `${contact.name} has opted out of SMS (replied STOP). They must reply START before you can send to them.`,
+    });
     return;
   }
 
-  const body = messageBody || generateBirthdayMessage(contact.name);
-
   const msgRecord: ScheduledMessage = {
     id: uuidv4(),
     contactId: contact.id,
@@ -346,55 +1203,110 @@ app.post('/api/messages/send-now', async (req, res) => {
     messageBody: body,
     scheduledFor: new Date().toISOString(),
     status: 'sending',
+    sendAttemptedAt: new Date().toISOString(),
     createdAt: new Date().toISOString(),
     year: new Date().getFullYear(),
+    ...extra,
   };
 
-  addMessage(msgRecord);
+  // Stored before the API call so a restart mid-send can be recovered
+  transaction(() => addMessage(accountSid, msgRecord));
 
   const bundle = getBundle(req);
-  const result = await sendBirthdaySms(
+  const result = await sendSms(
     bundle,
     req.sessionID,
     contact.id,
     contact.phone,
-    body
+    body,
+    msgRecord.id
   );
 
+  const attempts = [toSendAttempt(result, msgRecord.sendAttemptedAt!)];
   if (result.success) {
-    updateMessage(msgRecord.id, {
+    updateMessage(accountSid, msgRecord.id, {
       status: 'sent',
       notificationSid: result.notificationSid,
       sentAt: new Date().toISOString(),
+      attempts,
     });
 
-    setTimeout(() => {
-      updateMessage(msgRecord.id, {
-        status: 'delivered',
-        deliveredAt: new Date().toISOString(),
-      });
-    }, 5000);
-
     res.json({
       success: true,
       message: msgRecord,
       notificationSid: result.notificationSid,
     });
   } else {
-    updateMessage(msgRecord.id, {
+    updateMessage(accountSid, msgRecord.id, {
       status: 'failed',
       errorMessage: result.error,
+      errorCode: result.errorCode,
+      attempts,
     });
     res.status(500).json({
       success: false,
       error: result.error,
-      message: { ...msgRecord, status: 'failed', errorMessage: result.error },
+      errorHelp: describeTwilioError(result.errorCode),
+      message: {
+        ...msgRecord,
+        status: 'failed',
+        errorMessage: result.error,
+        errorCode: result.errorCode,
+      },
     });
   }
+}
+
+/**
+ * Sends by hand only go out inside the recipient's quiet hours when the
+ * request sets overrideQuietHours. Responds 409 and returns null when
+ * refused; otherwise returns the fields to record on the message.
+ */
+function quietHoursGate(
+  req: express.Request,
+  res: express.Response,
+  contact: Contact
+): Partial<ScheduledMessage> | null {
+  const quiet = recipientQuietHours(getAccountSid(req), contact.phone, contact);
+  if (!quiet) return {};
+  if (req.body.overrideQuietHours === true) return { quietHoursOverride: true };
+
+  res.status(409).json({
+    error:
+      `It is ${quiet.localTime} for ${contact.name} (${quiet.timeZone}), inside quiet hours ` +
+      `(${quiet.window.start}-${quiet.window.end}). Send with overrideQuietHours to send anyway.`,
+    quietHours: { ...quiet, until: quiet.until.toISOString() },
+    requiresOverride: true,
+  });
+  return null;
+}
+
+app.post('/api/messages/send-now', async (req, res) => {
+  const accountSid = getAccountSid(req);
+  const { contactId, messageBody } = req.body;
+  if (!contactId) {
+    res.status(400).json({ error: 'contactId is required.' });
+    return;
+  }
+
+  const contacts = getContacts(accountSid);
+  const contact = contacts.find((c) => c.id === contactId);
+  if (!contact) {
+    res.status(404).json({ error: 'Contact not found.' });
+    return;
+  }
+
+  const quiet = quietHoursGate(req, res, contact);
+  if (!quiet) return;
+
+  const body =
+    messageBody || generateBirthdayMessage(accountSid, contact, new Date().getFullYear());
+  await sendToContact(req, res, contact, body, quiet);
 });
 
 app.post('/api/messages/:id/cancel', (req, res) => {
-  const messages = getMessages();
+  const accountSid = getAccountSid(req);
+  const messages = getMessages(accountSid);
   const msg = messages.find((m) => m.id === req.params.id);
   if (!msg) {
     res.status(404).json({ error: 'Message not found.' });
@@ -404,26 +1316,232 @@ app.post('/api/messages/:id/cancel', (req, res) => {
     res.status(400).json({ error: 'Only scheduled messages can be cancelled.' });
     return;
   }
-  updateMessage(msg.id, { status: 'cancelled' });
+  updateMessage(accountSid, msg.id, { status: 'cancelled' });
   res.json({ success: true });
 });
 
-app.post('/api/messages/schedule-all', (_req, res) => {
-  const scheduled = scheduleAllContacts();
+app.post('/api/messages/:id/reschedule', (req, res) => {
+  const accountSid = getAccountSid(req);
+  const msg = getMessage(accountSid, req.params.id);
+  if (!msg) {
+    res.status(404).json({ error: 'Message not found.' });
+    return;
+  }
+  if (msg.status !== 'scheduled') {
+    res.status(400).json({ error: 'Only scheduled messages can be rescheduled.' });
+    return;
+  }
+
+  const time = parseOneOffTime(req.body.scheduledFor);
+  if ('error' in time) {
+    res.status(400).json({ error: time.error });
+    return;
+  }
+
+  const result = rescheduleMessage(accountSid, msg, time.sendAt);
+  if ('error' in result) {
+    res.status(409).json({ error: result.error });
+    return;
+  }
+  res.json({ success: true, message: result.message });
+});
+
+// Sends a late greeting in place of a missed message
+app.post('/api/messages/:id/belated', async (req, res) => {
+  const accountSid = getAccountSid(req);
+  const msg = getMessage(accountSid, req.params.id);
+  if (!msg) {
+    res.status(404).json({ error: 'Message not found.' });
+    return;
+  }
+  if (msg.status !== 'missed') {
+    res.status(400).json({ error: 'Only missed messages can be followed up with a belated one.' });
+    return;
+  }
+  const previous = msg.belatedMessageId && getMessage(accountSid, msg.belatedMessageId);
+  if (previous && previous.status !== 'failed') {
+    res.status(409).json({ error: 'A belated message was already sent for this one.' });
+    return;
+  }
+  const contact = getContact(accountSid, msg.contactId);
+  if (!contact) {
+    res.status(404).json({ error: 'Contact not found.' });
+    return;
+  }
+
+  const quiet = quietHoursGate(req, res, contact);
+  if (!quiet) return;
+
+  // One-off messages are simply sent late; occasions get a belated greeting
+  const occasion = getOccasion(contact, messageOccasionId(msg));
+  const body = req.body.messageBody
+    ? String(req.body.messageBody)
+    : occasion
+      ? generateBelatedMessage(accountSid, contact, occasion, msg.year)
+      : msg.messageBody;
+
+  const belatedId = uuidv4();
+  updateMessage(accountSid, msg.id, { belatedMessageId: belatedId });
+  await sendToContact(req, res, contact, body, {
+    ...quiet,
+    id: belatedId,
+    year: msg.year,
+    occasionId: msg.occasionId,
+    occasionType: msg.occasionType,
+    custom: msg.custom,
+  });
+});
+
+app.post('/api/messages/schedule-all', (req, res) => {
+  const scheduled = scheduleAllContacts(getAccountSid(req));
   res.json({ scheduled: scheduled.length, messages: scheduled });
 });
 
+// ─── Template Routes ────────────────────────────────────────────
+
+app.get('/api/templates', (req, res) => {
+  res.json(getTemplates(getAccountSid(req)));
+});
+
+app.post('/api/templates', (req, res) => {
+  const accountSid = getAccountSid(req);
+  const { name, body, occasionType, belated } = req.body;
+
+  if (!name || !body) {
+    res.status(400).json({ error: 'Template name and body are required.' });
+    return;
+  }
+
+  const error = validateTemplateFields(name, body) || validateOccasionType(occasionType);
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  const template: MessageTemplate = {
+    id: uuidv4(),
+    name: String(name).trim(),
+    body: String(body).trim(),
+    occasionType: occasionType || undefined,
+    belated: belated === true || undefined,
+    createdAt: new Date().toISOString(),
+  };
+  addTemplate(accountSid, template);
+  res.status(201).json(template);
+});
+
+app.patch('/api/templates/:id', (req, res) => {
+  const accountSid = getAccountSid(req);
+  const { name, body, occasionType, belated } = req.body;
+
+  const error = validateTemplateFields(name, body) || validateOccasionType(occasionType);
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  const updates: Partial<MessageTemplate> = { updatedAt: new Date().toISOString() };
+  if (name !== undefined) updates.name = String(name).trim();
+  if (body !== undefined) updates.body = String(body).trim();
+  if (occasionType !== undefined) updates.occasionType = occasionType || undefined;
+  if (belated !== undefined) updates.belated = belated === true || undefined;
+
+  const template = updateTemplate(accountSid, req.params.id, updates);
+  if (!template) {
+    res.status(404).json({ error: 'Template not found.' });
+    return;
+  }
+
+  // Pending messages of occasions pinned to this template pick up the edit
+  if (body !== undefined) {
+    for (const contact of getContacts(accountSid)) {
+      const pinned = getOccasions(contact).some(
+        (o) => o.templateMode === 'fixed' && o.templateId === template.id
+      );
+      if (pinned) rerenderScheduledMessages(accountSid, contact.id);
+    }
+  }
+
+  res.json(template);
+});
+
+app.delete('/api/templates/:id', (req, res) => {
+  const removed = removeTemplate(getAccountSid(req), req.params.id);
+  if (!removed) {
+    res.status(404).json({ error: 'Template not found.' });
+    return;
+  }
+  res.json({ success: true });
+});
+
+// ─── Account Settings ───────────────────────────────────────────
+
+app.get('/api/settings', (req, res) => {
+  res.json(getSettings(getAccountSid(req)));
+});
+
+app.patch('/api/settings', (req, res) => {
+  const accountSid = getAccountSid(req);
+  const parsed = parseSettingsUpdate(req.body || {});
+  if ('error' in parsed) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+  const { updates } = parsed;
+
+  const before = getSettings(accountSid);
+  const settings = updateSettings(accountSid, updates);
+
+  // Move already-scheduled leap-day occasions to the new date
+  let rescheduled = 0;
+  if (settings.leapDayPolicy !== before.leapDayPolicy) {
+    for (const contact of getContacts(accountSid)) {
+      const leapDay = getOccasions(contact).some(
+        (o) => occasionDate(contact, o).date === '02-29'
+      );
+      if (leapDay) {
+        rescheduled += rescheduleContact(accountSid, contact.id);
+      }
+    }
+  }
+
+  res.json({ settings, rescheduled });
+});
+
+// ─── Cost Forecast ──────────────────────────────────────────────
+
+app.get('/api/forecast', (req, res) => {
+  const months = req.query.months ? parseInt(String(req.query.months), 10) : 12;
+  if (isNaN(months) || months < 1 || months > 24) {
+    res.status(400).json({ error: 'months must be between 1 and 24.' });
+    return;
+  }
+  res.json(buildForecast(getAccountSid(req), months));
+});
+
 // ─── Timeline / Activity Feed ───────────────────────────────────
 
-app.get('/api/timeline', (_req, res) => {
-  const messages = getMessages();
-  const contacts = getContacts();
+app.get('/api/timeline', (req, res) => {
+  const accountSid = getAccountSid(req);
+  const messages = getMessages(accountSid);
+  const contacts = getContacts(accountSid);
 
   const timeline = messages
-    .map((m) => ({
-      ...m,
-      contactExists: contacts.some((c) => c.id === m.contactId),
-    }))
+    .map((m) => {
+      const contact = contacts.find((c) => c.id === m.contactId);
+      const occasion = contact && getOccasion(contact, messageOccasionId(m));
+      return {
+        ...m,
+        contactExists: Boolean(contact),
+        occasionLabel: messageOccasionId(m)
+          ? occasionLabel(occasion || { type: m.occasionType || 'birthday' })
+          : undefined,
+        errorHelp: describeTwilioError(m.errorCode),
+        belatedStatus: m.belatedMessageId
+          ? messages.find((b) => b.id === m.belatedMessageId)?.status
+          : undefined,
+      };
+    })
     .sort((a, b) => {
       if (a.status === 'scheduled' && b.status !== 'scheduled') return -1;
       if (b.status === 'scheduled' && a.status !== 'scheduled') return 1;
@@ -436,6 +1554,95 @@ app.get('/api/timeline', (_req, res) => {
   res.json(timeline);
 });
 
+// ─── Export & Backup ────────────────────────────────────────────
+
+// Dated download file name, e.g. contacts-2024-05-01.csv
+function sendDownload(
+  res: express.Response,
+  name: string,
+  extension: string,
+  contentType: string,
+  body: string
+): void {
+  const date = new Date().toISOString().substring(0, 10);
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${name}-${date}.${extension}"`);
+  res.send(body);
+}
+
+app.get('/api/export/contacts', (req, res) => {
+  const format = req.query.format || 'csv';
+  const contacts = getContacts(getAccountSid(req));
+  if (format === 'csv') {
+    sendDownload(res, 'contacts', 'csv', 'text/csv; charset=utf-8', contactsToCsv(contacts));
+  } else if (format === 'vcard') {
+    sendDownload(res, 'contacts', 'vcf', 'text/vcard; charset=utf-8', contactsToVCard(contacts));
+  } else {
+    res.status(400).json({ error: 'Format must be "csv" or "vcard".' });
+  }
+});
+
+app.get('/api/export/messages', (req, res) => {
+  const format = req.query.format || 'csv';
+  const messages = [...getMessages(getAccountSid(req))].sort(
+    (a, b) => new Date(a.scheduledFor).getTime() - new Date(b.scheduledFor).getTime()
+  );
+  if (format === 'csv') {
+    sendDownload(res, 'messages', 'csv', 'text/csv; charset=utf-8', messagesToCsv(messages));
+  } else if (format === 'json') {
+    sendDownload(
+      res,
+      'messages',
+      'json',
+      'application/json',
+      JSON.stringify(messages, null, 2)
+    );
+  } else {
+    res.status(400).json({ error: 'Format must be "csv" or "json".' });
+  }
+});
+
+app.get('/api/backup', (req, res) => {
+  const backup = createBackup(getAccountSid(req));
+  sendDownload(res, 'backup', 'json', 'application/json', JSON.stringify(backup, null, 2));
+});
+
+app.post('/api/backup/restore', (req, res) => {
+  const accountSid = getAccountSid(req);
+  const { backup, conflict = 'skip', matchBy = 'id' } = req.body;
+
+  if (!['skip', 'overwrite', 'merge'].includes(conflict)) {
+    res.status(400).json({ error: 'Conflict handling must be "skip", "overwrite" or "merge".' });
+    return;
+  }
+  if (matchBy !== 'id' && matchBy !== 'phone') {
+    res.status(400).json({ error: 'matchBy must be "id" or "phone".' });
+    return;
+  }
+
+  const errors = validateBackup(backup);
+  if (errors.length > 0) {
+    res.status(400).json({ error: 'Backup failed validation.', details: errors });
+    return;
+  }
+
+  const { contactIds, ...report } = restoreBackup(
+    accountSid,
+    backup as BackupArchive,
+    conflict as ConflictStrategy,
+    matchBy as ContactMatchKey
+  );
+
+  // Restored contacts may have new names, numbers, dates or zones
+  for (const id of contactIds) {
+    reconcileContactMessages(accountSid, id, { datesChanged: [], rerender: false });
+    rescheduleContact(accountSid, id);
+  }
+  const scheduled = scheduleAllContacts(accountSid);
+
+  res.json({ ...report, scheduled: scheduled.length });
+});
+
 // ─── Serve Frontend ─────────────────────────────────────────────
 
 app.get('/login', (_req, res) => {
@@ -448,9 +1655,31 @@ app.get('/', (_req, res) => {
 
 // ─── Start Server ───────────────────────────────────────────────
 
+// Open storage before taking requests, so a lock conflict or a recovery
+// from snapshot is the first thing in the log
+getStorage();
+
+// Write out queued changes and release the data file lock
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    getStorage().close();
+    process.exit(0);
+  });
+}
+
 app.listen(PORT, () => {
   console.log(`\n  BirthdayBuzz running at http://localhost:${PORT}\n`);
   console.log('  Login with your Twilio credentials at /login\n');
+  if (!isVaultEnabled()) {
+    console.warn(
+      '  CREDENTIAL_VAULT_KEY is not set: scheduled messages only send while someone from the account is logged in.\n'
+    );
+  }
+  if (!getStatusCallbackUrl()) {
+    console.warn(
+      '  PUBLIC_BASE_URL is not set: delivery status callbacks are disabled and messages will stay "sent".\n'
+    );
+  }
 
   // Start the birthday scheduler
   startScheduler();
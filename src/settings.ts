@@ -0,0 +1,109 @@
+/**
+ * Validation of account settings changes. The settings API and backup
+ * restore share it, so a restored archive can hold nothing the API would
+ * refuse.
+ */
+import { isValidRegion } from './phone';
+import { validateQuietHours } from './quiet-hours';
+import { AccountSettings } from './types';
+
+export function isPrice(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value) && value >= 0;
+}
+
+/**
+ * The settings changes in a request body or stored settings object, or the
+ * first problem with them. null clears monthlyBudget and quietHours.
+ */
+export function parseSettingsUpdate(
+  fields: Record<string, unknown>
+): { updates: Partial<AccountSettings> } | { error: string } {
+  const {
+    leapDayPolicy,
+    senderName,
+    defaultRegion,
+    smsPrices,
+    defaultSmsPrice,
+    monthlyBudget,
+    budgetPolicy,
+    quietHours,
+    catchUpHours,
+  } = fields;
+  const updates: Partial<AccountSettings> = {};
+
+  if (leapDayPolicy !== undefined) {
+    if (leapDayPolicy !== 'feb28' && leapDayPolicy !== 'mar1') {
+      return { error: 'leapDayPolicy must be "feb28" or "mar1".' };
+    }
+    updates.leapDayPolicy = leapDayPolicy;
+  }
+
+  if (senderName !== undefined) {
+    const safeSender = String(senderName).trim();
+    if (safeSender.length > 50) {
+      return { error: 'senderName must be at most 50 characters.' };
+    }
+    updates.senderName = safeSender || undefined;
+  }
+
+  if (defaultRegion !== undefined) {
+    const region = String(defaultRegion).toUpperCase();
+    if (!isValidRegion(region)) {
+      return { error: 'defaultRegion must be an ISO 3166-1 alpha-2 country code.' };
+    }
+    updates.defaultRegion = region;
+  }
+
+  if (smsPrices !== undefined) {
+    if (
+      typeof smsPrices !== 'object' ||
+      smsPrices === null ||
+      !Object.values(smsPrices).every(isPrice)
+    ) {
+      return { error: 'smsPrices must map countries to non-negative numbers.' };
+    }
+    updates.smsPrices = smsPrices as Record<string, number>;
+  }
+
+  if (defaultSmsPrice !== undefined) {
+    if (!isPrice(defaultSmsPrice)) {
+      return { error: 'defaultSmsPrice must be a non-negative number.' };
+    }
+    updates.defaultSmsPrice = defaultSmsPrice;
+  }
+
+  // null removes the cap
+  if (monthlyBudget !== undefined) {
+    if (monthlyBudget !== null && !isPrice(monthlyBudget)) {
+      return { error: 'monthlyBudget must be a non-negative number or null.' };
+    }
+    updates.monthlyBudget = monthlyBudget === null ? undefined : monthlyBudget;
+  }
+
+  if (budgetPolicy !== undefined) {
+    if (budgetPolicy !== 'block' && budgetPolicy !== 'defer') {
+      return { error: 'budgetPolicy must be "block" or "defer".' };
+    }
+    updates.budgetPolicy = budgetPolicy;
+  }
+
+  if (catchUpHours !== undefined) {
+    if (typeof catchUpHours !== 'number' || !(catchUpHours > 0) || catchUpHours > 720) {
+      return { error: 'catchUpHours must be more than 0 and at most 720 hours.' };
+    }
+    updates.catchUpHours = catchUpHours;
+  }
+
+  // null turns quiet hours off
+  if (quietHours !== undefined) {
+    const quietError = quietHours === null ? null : validateQuietHours(quietHours);
+    if (quietError) {
+      return { error: quietError };
+    }
+    const window = quietHours as Record<string, unknown> | null;
+    updates.quietHours =
+      window === null ? undefined : { start: String(window.start), end: String(window.end) };
+  }
+
+  return { updates };
+}
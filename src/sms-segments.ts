@@ -0,0 +1,103 @@
+/**
+ * SMS encoding and segment calculation (GSM 03.38).
+ *
+ * A message is sent as GSM-7 when every character is in the GSM basic or
+ * extension table, otherwise the whole message falls back to UCS-2.
+ * Extension characters take two septets (escape + char). Multipart messages
+ * lose room to the concatenation header, and a character is never split
+ * across segments.
+ */
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+export const TRIAL_PREFIX = 'Sent from your Twilio trial account - ';
+
+const GSM_BASIC =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM_EXTENDED = '^{}\\[~]|€\f';
+
+const GSM_BASIC_SET = new Set(Array.from(GSM_BASIC));
+const GSM_EXTENDED_SET = new Set(Array.from(GSM_EXTENDED));
+
+// Units per segment: septets for GSM-7, UTF-16 code units for UCS-2
+const LIMITS: Record<SmsEncoding, { single: number; multi: number }> = {
+  'GSM-7': { single: 160, multi: 153 },
+  'UCS-2': { single: 70, multi: 67 },
+};
+
+export interface SmsSegment {
+  start: number; // UTF-16 offset into the message, inclusive
+  end: number; // exclusive
+  text: string;
+  units: number; // septets (GSM-7) or code units (UCS-2) used
+}
+
+export interface SmsAnalysis {
+  encoding: SmsEncoding;
+  characters: number; // user-perceived code points
+  units: number; // total septets or code units
+  segmentCount: number;
+  unitsPerSegment: number; // capacity of each segment at this length
+  segments: SmsSegment[];
+  ucs2Characters: string[]; // distinct characters forcing UCS-2
+  extendedCharacters: string[]; // distinct GSM extension characters (2 septets each)
+}
+
+export function isGsmCharacter(char: string): boolean {
+  return GSM_BASIC_SET.has(char) || GSM_EXTENDED_SET.has(char);
+}
+
+function unitCost(char: string, encoding: SmsEncoding): number {
+  if (encoding === 'UCS-2') return char.length; // surrogate pairs take 2
+  return GSM_EXTENDED_SET.has(char) ? 2 : 1;
+}
+
+export function analyzeSms(text: string): SmsAnalysis {
+  const chars = Array.from(text);
+  const ucs2Characters = Array.from(new Set(chars.filter((c) => !isGsmCharacter(c))));
+  const encoding: SmsEncoding = ucs2Characters.length > 0 ? 'UCS-2' : 'GSM-7';
+  const extendedCharacters =
+    encoding === 'GSM-7'
+      ? Array.from(new Set(chars.filter((c) => GSM_EXTENDED_SET.has(c))))
+      : [];
+
+  const units = chars.reduce((sum, c) => sum + unitCost(c, encoding), 0);
+  const limit = units <= LIMITS[encoding].single
+    ? LIMITS[encoding].single
+    : LIMITS[encoding].multi;
+
+  const segments: SmsSegment[] = [];
+  let start = 0;
+  let offset = 0;
+  let used = 0;
+  for (const char of chars) {
+    const cost = unitCost(char, encoding);
+    if (used + cost > limit) {
+      segments.push({ start, end: offset, text: text.slice(start, offset), units: used });
+      start = offset;
+      used = 0;
+    }
+    used += cost;
+    offset += char.length;
+  }
+  if (used > 0) {
+    segments.push({ start, end: offset, text: text.slice(start, offset), units: used });
+  }
+
+  return {
+    encoding,
+    characters: chars.length,
+    units,
+    segmentCount: segments.length,
+    unitsPerSegment: limit,
+    segments,
+    ucs2Characters,
+    extendedCharacters,
+  };
+}
+
+/** Analysis of the message as a trial account delivers it, with the prefix. */
+export function analyzeTrialSms(text: string): SmsAnalysis {
+  return analyzeSms(TRIAL_PREFIX + text);
+}
@@ -9,12 +9,27 @@ import {
   NotifyV1ServiceApi,
 } from 'twilio-api-sdk-sdk';
 import { getNotifyServiceSid, setNotifyServiceSid } from './store';
-import { SessionCredentials, TwilioClientBundle } from './types';
+import { getStoredCredentials } from './credential-vault';
+import { describeTwilioError, isRetryableFailure, parseTwilioErrorBody } from './twilio-errors';
+import { SendAttempt, SessionCredentials, TwilioClientBundle } from './types';
 
 export interface SmsResult {
   success: boolean;
   notificationSid?: string;
   error?: string;
+  statusCode?: number; // HTTP status of a failed API call
+  errorCode?: number; // Twilio error code from the response body
+  retryable?: boolean; // whether sending again may succeed
+}
+
+/** The record of one send for ScheduledMessage.attempts. */
+export function toSendAttempt(result: SmsResult, at: string): SendAttempt {
+  const attempt: SendAttempt = { at, success: result.success };
+  if (result.error !== undefined) attempt.error = result.error;
+  if (result.statusCode !== undefined) attempt.statusCode = result.statusCode;
+  if (result.errorCode !== undefined) attempt.errorCode = result.errorCode;
+  if (!result.success) attempt.retryable = Boolean(result.retryable);
+  return attempt;
 }
 
 // ─── Per-session client factory ──────────────────────────────────
@@ -63,15 +78,119 @@ export function getActiveSessionIds(): string[] {
   return Array.from(activeClients.keys());
 }
 
-export function getFirstActiveClient(): TwilioClientBundle | undefined {
-  const first = activeClients.values().next();
-  return first.done ? undefined : first.value;
+export function getActiveClientForAccount(accountSid: string): TwilioClientBundle | undefined {
+  for (const bundle of activeClients.values()) {
+    if (bundle.credentials.accountSid === accountSid) return bundle;
+  }
+  return undefined;
+}
+
+/**
+ * Client for background work on behalf of an account: prefers credentials
+ * from the encrypted vault so it works with nobody logged in, falling back
+ * to a live session of the same account.
+ */
+export function getClientForAccount(accountSid: string): TwilioClientBundle | undefined {
+  const stored = getStoredCredentials(accountSid);
+  if (stored) return createTwilioClientBundle(stored);
+  return getActiveClientForAccount(accountSid);
+}
+
+// ─── Status callbacks ────────────────────────────────────────────
+
+// Externally reachable URL of this app (e.g. https://buzz.example.com).
+// Twilio cannot call back to localhost, so delivery tracking needs this set.
+const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || '').replace(/\/+$/, '');
+
+export function getPublicBaseUrl(): string | undefined {
+  return PUBLIC_BASE_URL || undefined;
+}
+
+/**
+ * Where Twilio posts delivery status. With a message id the callback can be
+ * matched even when the notification SID was never stored.
+ */
+export function getStatusCallbackUrl(messageId?: string): string | undefined {
+  if (!PUBLIC_BASE_URL) return undefined;
+  const url = `${PUBLIC_BASE_URL}/webhooks/status`;
+  return messageId ? `${url}?messageId=${encodeURIComponent(messageId)}` : url;
+}
+
+/** Status callback URL for a broadcast; each callback names its recipient. */
+export function getBroadcastCallbackUrl(broadcastId: string): string | undefined {
+  if (!PUBLIC_BASE_URL) return undefined;
+  return `${PUBLIC_BASE_URL}/webhooks/status?broadcastId=${encodeURIComponent(broadcastId)}`;
+}
+
+// ─── Credential check ────────────────────────────────────────────
+
+/**
+ * Whether Twilio accepts the Account SID and Auth Token, by making one
+ * authenticated call (listing Notify services). Nothing else here talks
+ * to Twilio when a service SID is already known, so login must check this
+ * before trusting the credentials with an account's data.
+ */
+export async function verifyCredentials(bundle: TwilioClientBundle): Promise<boolean> {
+  try {
+    await bundle.serviceApi.listService(1); // pageSize
+    return true;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      console.error('API Error checking credentials:', error.statusCode, error.body);
+    } else {
+      console.error('Error checking credentials:', error);
+    }
+    return false;
+  }
 }
 
 // ─── Notify service management ───────────────────────────────────
 
 const sessionNotifyServiceSids = new Map<string, string>();
 
+// Services whose delivery callback this process has pointed at PUBLIC_BASE_URL
+const callbackConfiguredServices = new Set<string>();
+
+/**
+ * Point an existing service's delivery callback at this app. A service
+ * created before PUBLIC_BASE_URL was set, or whose SID came from the
+ * credentials or the store, would otherwise only report deliveries for
+ * notifications carrying their own callback URL. Failure is logged, not
+ * fatal: those per-notification URLs still work.
+ */
+async function ensureDeliveryCallback(bundle: TwilioClientBundle, serviceSid: string): Promise<void> {
+  const deliveryCallbackUrl = getStatusCallbackUrl();
+  if (!deliveryCallbackUrl || callbackConfiguredServices.has(serviceSid)) return;
+
+  try {
+    await bundle.serviceApi.updateService(
+      serviceSid,
+      undefined, // friendlyName
+      undefined, // apnCredentialSid
+      undefined, // gcmCredentialSid
+      undefined, // messagingServiceSid
+      undefined, // facebookMessengerPageId
+      undefined, // defaultApnNotificationProtocolVersion
+      undefined, // defaultGcmNotificationProtocolVersion
+      undefined, // fcmCredentialSid
+      undefined, // defaultFcmNotificationProtocolVersion
+      undefined, // logEnabled
+      undefined, // alexaSkillId
+      undefined, // defaultAlexaNotificationProtocolVersion
+      deliveryCallbackUrl,
+      true // deliveryCallbackEnabled
+    );
+    callbackConfiguredServices.add(serviceSid);
+    console.log(`Set delivery callback of Notify Service ${serviceSid} to ${deliveryCallbackUrl}`);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      console.warn('API Error setting Notify Service delivery callback:', error.statusCode, error.body);
+    } else {
+      console.warn('Error setting Notify Service delivery callback:', error);
+    }
+  }
+}
+
 export async function ensureNotifyService(bundle: TwilioClientBundle, sessionId: string): Promise<string | null> {
   // Check in-memory cache for this session
   const cached = sessionNotifyServiceSids.get(sessionId);
@@ -79,13 +198,15 @@ export async function ensureNotifyService(bundle: TwilioClientBundle, sessionId:
 
   // Check credentials for a pre-set notify service SID
   if (bundle.credentials.notifyServiceSid) {
+    await ensureDeliveryCallback(bundle, bundle.credentials.notifyServiceSid);
     sessionNotifyServiceSids.set(sessionId, bundle.credentials.notifyServiceSid);
     return bundle.credentials.notifyServiceSid;
   }
 
   // Check persistent store
-  const stored = getNotifyServiceSid();
+  const stored = getNotifyServiceSid(bundle.credentials.accountSid);
   if (stored) {
+    await ensureDeliveryCallback(bundle, stored);
     sessionNotifyServiceSids.set(sessionId, stored);
     console.log('Using existing Notify Service:', stored);
     return stored;
@@ -111,14 +232,15 @@ export async function ensureNotifyService(bundle: TwilioClientBundle, sessionId:
       true, // logEnabled
       undefined, // alexaSkillId
       undefined, // defaultAlexaNotificationProtocolVersion
-      undefined, // deliveryCallbackUrl
+      getStatusCallbackUrl(), // deliveryCallbackUrl
       true // deliveryCallbackEnabled
     );
 
     if (response.result && response.result.sid) {
       const sid = response.result.sid;
+      if (getStatusCallbackUrl()) callbackConfiguredServices.add(sid);
       sessionNotifyServiceSids.set(sessionId, sid);
-      setNotifyServiceSid(sid);
+      setNotifyServiceSid(bundle.credentials.accountSid, sid);
       console.log('Created Notify Service:', sid);
       return sid;
     }
@@ -135,16 +257,21 @@ export async function ensureNotifyService(bundle: TwilioClientBundle, sessionId:
   }
 }
 
+/**
+ * Register the contact's number with Notify, tagged with the kinds of
+ * occasion they have and their groups. Returns the binding SID.
+ */
 export async function createSmsBinding(
   bundle: TwilioClientBundle,
   sessionId: string,
   contactId: string,
-  phoneE164: string
-): Promise<boolean> {
+  phoneE164: string,
+  tags: string[]
+): Promise<string | null> {
   const serviceSid = await ensureNotifyService(bundle, sessionId);
   if (!serviceSid) {
     console.warn('Cannot create binding: service not available');
-    return false;
+    return null;
   }
 
   try {
@@ -153,7 +280,7 @@ export async function createSmsBinding(
       contactId, // identity
       BindingBindingTyp2.Sms,
       phoneE164, // address in E.164 format
-      ['birthday'], // tags
+      tags,
       undefined, // notificationProtocolVersion
       undefined, // credentialSid
       undefined // endpoint
@@ -163,29 +290,92 @@ export async function createSmsBinding(
       console.log(
         `Created SMS binding for ${phoneE164}: ${response.result.sid}`
       );
-      return true;
+      return response.result.sid;
     }
-    return false;
+    return null;
   } catch (error) {
     if (error instanceof ApiError) {
       console.error('API Error creating binding:', error.statusCode, error.body);
     } else {
       console.error('Error creating binding:', error);
     }
+    return null;
+  }
+}
+
+export async function removeSmsBinding(
+  bundle: TwilioClientBundle,
+  sessionId: string,
+  bindingSid: string
+): Promise<boolean> {
+  const serviceSid = await ensureNotifyService(bundle, sessionId);
+  if (!serviceSid) {
+    console.warn('Cannot remove binding: service not available');
+    return false;
+  }
+
+  try {
+    await bundle.bindingApi.deleteBinding(serviceSid, bindingSid);
+    console.log(`Removed SMS binding ${bindingSid}`);
+    return true;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      console.error('API Error removing binding:', error.statusCode, error.body);
+    } else {
+      console.error('Error removing binding:', error);
+    }
     return false;
   }
 }
 
-export async function sendBirthdaySms(
+/** Sends one message to a contact through Notify: a greeting for any occasion, or a reply. */
+export async function sendSms(
   bundle: TwilioClientBundle | undefined,
   sessionId: string,
   contactId: string,
   phoneE164: string,
-  messageBody: string
+  messageBody: string,
+  messageId?: string
+): Promise<SmsResult> {
+  const toBinding = [
+    JSON.stringify({
+      binding_type: 'sms',
+      address: phoneE164,
+    }),
+  ];
+  return createNotification(bundle, sessionId, phoneE164, messageBody, {
+    toBinding,
+    deliveryCallbackUrl: getStatusCallbackUrl(messageId),
+  });
+}
+
+/**
+ * Sends one notification to every binding with the tag, e.g. a contact
+ * group. Twilio fans it out to the individual numbers.
+ */
+export async function sendBroadcast(
+  bundle: TwilioClientBundle | undefined,
+  sessionId: string,
+  tag: string,
+  messageBody: string,
+  broadcastId: string
+): Promise<SmsResult> {
+  return createNotification(bundle, sessionId, `tag "${tag}"`, messageBody, {
+    tag: [tag],
+    deliveryCallbackUrl: getBroadcastCallbackUrl(broadcastId),
+  });
+}
+
+async function createNotification(
+  bundle: TwilioClientBundle | undefined,
+  sessionId: string,
+  recipient: string, // for logs: a number or a tag
+  messageBody: string,
+  target: { toBinding?: string[]; tag?: string[]; deliveryCallbackUrl?: string }
 ): Promise<SmsResult> {
   // If no client bundle, simulate sending
   if (!bundle) {
-    console.log(`[SIMULATED] SMS to ${phoneE164}: ${messageBody}`);
+    console.log(`[SIMULATED] SMS to ${recipient}: ${messageBody}`);
     return {
       success: true,
       notificationSid: `SIM_${Date.now()}`,
@@ -194,25 +384,20 @@ export async function sendBirthdaySms(
 
   const serviceSid = await ensureNotifyService(bundle, sessionId);
   if (!serviceSid) {
-    return { success: false, error: 'Notify service not available' };
+    return { success: false, error: 'Notify service not available', retryable: true };
   }
 
   try {
-    const toBinding = [
-      JSON.stringify({
-        binding_type: 'sms',
-        address: phoneE164,
-      }),
-    ];
-
     const response = await bundle.notificationApi.createNotification(
       serviceSid,
       messageBody,
       undefined, undefined, undefined, undefined, undefined, undefined,
       undefined, undefined, undefined, undefined, undefined, undefined,
       undefined,
-      toBinding, // toBinding
-      undefined, undefined, undefined
+      target.toBinding, // toBinding
+      target.deliveryCallbackUrl, // deliveryCallbackUrl
+      undefined, // identity
+      target.tag // tag
     );
 
     if (response.result) {
@@ -221,31 +406,35 @@ export async function sendBirthdaySms(
         notification.sid !== undefined && notification.sid !== null
           ? notification.sid
           : undefined;
-      console.log(`SMS sent to ${phoneE164}, SID: ${sid}`);
+      console.log(`SMS sent to ${recipient}, SID: ${sid}`);
       return { success: true, notificationSid: sid ?? undefined };
     }
 
-    return { success: false, error: 'No result in notification response' };
+    // Twilio may have accepted it, so sending again could duplicate it
+    return { success: false, error: 'No result in notification response', retryable: false };
   } catch (error) {
     if (error instanceof ApiError) {
       const errorBody =
         typeof error.body === 'string' ? error.body : JSON.stringify(error.body);
-      console.error(`API Error sending SMS to ${phoneE164}:`, error.statusCode, errorBody);
-
-      if (error.statusCode === 400 || error.statusCode === 403) {
-        return {
-          success: false,
-          error: `SMS failed (${error.statusCode}): This may be a trial account restriction. Ensure the recipient number is verified in your account. ${errorBody}`,
-        };
-      }
+      console.error(`API Error sending SMS to ${recipient}:`, error.statusCode, errorBody);
+      const parsed = parseTwilioErrorBody(error.body);
+      const errorCode = parsed.code;
+      const known = describeTwilioError(errorCode);
+      const detail = known ? known.cause : parsed.message || errorBody;
+
       return {
         success: false,
-        error: `SMS API error (${error.statusCode}): ${errorBody}`,
+        error:
+          `SMS failed (${errorCode !== undefined ? `Twilio error ${errorCode}` : error.statusCode}): ` +
+          detail,
+        statusCode: error.statusCode,
+        errorCode,
+        retryable: isRetryableFailure(error.statusCode, errorCode),
       };
     }
     const errMsg = error instanceof Error ? error.message : String(error);
-    console.error(`Error sending SMS to ${phoneE164}:`, errMsg);
-    return { success: false, error: errMsg };
+    console.error(`Error sending SMS to ${recipient}:`, errMsg);
+    return { success: false, error: errMsg, retryable: isRetryableFailure() };
   }
 }
 
@@ -0,0 +1,505 @@
+/**
+ * SQLite storage. Each record is kept as JSON alongside the columns that
+ * are searched on, so new optional fields need no schema change.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { InboundQuery, MessageQuery, StorageBackend } from './storage';
+import {
+  AccountData,
+  AccountSettings,
+  Contact,
+  InboundMessage,
+  MessageTemplate,
+  ScheduledMessage,
+} from './types';
+
+const SCHEMA_VERSION = 1;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS accounts (
+    sid TEXT PRIMARY KEY,
+    notify_service_sid TEXT,
+    settings TEXT
+  );
+  CREATE TABLE IF NOT EXISTS contacts (
+    account_sid TEXT NOT NULL,
+    id TEXT NOT NULL,
+    phone TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (account_sid, id)
+  );
+  CREATE INDEX IF NOT EXISTS contacts_phone ON contacts (account_sid, phone);
+  CREATE TABLE IF NOT EXISTS messages (
+    account_sid TEXT NOT NULL,
+    id TEXT NOT NULL,
+    contact_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    scheduled_for TEXT NOT NULL,
+    notification_sid TEXT,
+    message_sid TEXT,
+    data TEXT NOT NULL,
+    PRIMARY KEY (account_sid, id)
+  );
+  CREATE INDEX IF NOT EXISTS messages_status ON messages (account_sid, status, scheduled_for);
+  CREATE INDEX IF NOT EXISTS messages_scheduled_for ON messages (account_sid, scheduled_for);
+  CREATE INDEX IF NOT EXISTS messages_contact ON messages (account_sid, contact_id);
+  CREATE INDEX IF NOT EXISTS messages_notification_sid ON messages (notification_sid);
+  CREATE INDEX IF NOT EXISTS messages_message_sid ON messages (message_sid);
+  CREATE TABLE IF NOT EXISTS inbound (
+    account_sid TEXT NOT NULL,
+    id TEXT NOT NULL,
+    contact_id TEXT,
+    read_at TEXT,
+    data TEXT NOT NULL,
+    PRIMARY KEY (account_sid, id)
+  );
+  CREATE INDEX IF NOT EXISTS inbound_contact ON inbound (account_sid, contact_id);
+  CREATE TABLE IF NOT EXISTS templates (
+    account_sid TEXT NOT NULL,
+    id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (account_sid, id)
+  );
+`;
+
+type Row = { data: string };
+
+function parse<T>(row: Row | undefined): T | undefined {
+  return row ? (JSON.parse(row.data) as T) : undefined;
+}
+
+function parseAll<T>(rows: Row[]): T[] {
+  return rows.map((row) => JSON.parse(row.data) as T);
+}
+
+function messageColumns(accountSid: string, m: ScheduledMessage) {
+  return {
+    account_sid: accountSid,
+    id: m.id,
+    contact_id: m.contactId,
+    status: m.status,
+    scheduled_for: m.scheduledFor,
+    notification_sid: m.notificationSid ?? null,
+    message_sid: m.messageSid ?? null,
+    data: JSON.stringify(m),
+  };
+}
+
+function inboundColumns(accountSid: string, m: InboundMessage) {
+  return {
+    account_sid: accountSid,
+    id: m.id,
+    contact_id: m.contactId ?? null,
+    read_at: m.readAt ?? null,
+    data: JSON.stringify(m),
+  };
+}
+
+export class SqliteStorage implements StorageBackend {
+  private db: Database.Database;
+
+  constructor(file: string) {
+    const dir = path.dirname(file);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+
+    const version = this.getMeta('schema_version');
+    if (version === undefined) {
+      this.setMeta('schema_version', String(SCHEMA_VERSION));
+    } else if (Number(version) > SCHEMA_VERSION) {
+      throw new Error(
+        `${file} uses schema version ${version}; this build supports up to ${SCHEMA_VERSION}.`
+      );
+    }
+  }
+
+  private getMeta(key: string): string | undefined {
+    const row = this.db.prepare('SELECT value FROM meta WHERE key = ?').get(key) as
+      | { value: string }
+      | undefined;
+    return row?.value;
+  }
+
+  private setMeta(key: string, value: string): void {
+    this.db
+      .prepare(
+        `INSERT INTO meta (key, value) VALUES (?, ?)
+         ON CONFLICT (key) DO UPDATE SET value = excluded.value`
+      )
+      .run(key, value);
+  }
+
+  transaction<T>(fn: () => T): T {
+    // better-sqlite3 turns nested transactions into savepoints
+    return this.db.transaction(fn)();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  // ─── Accounts ──────────────────────────────────────────────────
+
+  getAccountSids(): string[] {
+    const rows = this.db.prepare('SELECT sid FROM accounts ORDER BY rowid').all() as {
+      sid: string;
+    }[];
+    return rows.map((row) => row.sid);
+  }
+
+  hasAccount(accountSid: string): boolean {
+    return this.db.prepare('SELECT 1 FROM accounts WHERE sid = ?').get(accountSid) !== undefined;
+  }
+
+  createAccount(accountSid: string): void {
+    this.db.prepare('INSERT OR IGNORE INTO accounts (sid) VALUES (?)').run(accountSid);
+  }
+
+  getAccountData(accountSid: string): AccountData {
+    const account: AccountData = {
+      contacts: this.getContacts(accountSid),
+      messages: this.getMessages(accountSid),
+    };
+    const inbound = this.getInboundMessages(accountSid);
+    if (inbound.length > 0) account.inbound = inbound;
+    const templates = this.getTemplates(accountSid);
+    if (templates.length > 0) account.templates = templates;
+    const notifyServiceSid = this.getNotifyServiceSid(accountSid);
+    if (notifyServiceSid) account.notifyServiceSid = notifyServiceSid;
+    const settings = this.getSettings(accountSid);
+    if (settings) account.settings = settings;
+    return account;
+  }
+
+  setAccountData(accountSid: string, account: AccountData): void {
+    this.transaction(() => {
+      for (const table of ['contacts', 'messages', 'inbound', 'templates']) {
+        this.db.prepare(`DELETE FROM ${table} WHERE account_sid = ?`).run(accountSid);
+      }
+      this.db
+        .prepare(
+          `INSERT INTO accounts (sid, notify_service_sid, settings) VALUES (?, ?, ?)
+           ON CONFLICT (sid) DO UPDATE SET
+             notify_service_sid = excluded.notify_service_sid,
+             settings = excluded.settings`
+        )
+        .run(
+          accountSid,
+          account.notifyServiceSid ?? null,
+          account.settings ? JSON.stringify(account.settings) : null
+        );
+      this.addContacts(accountSid, account.contacts);
+      for (const message of account.messages) this.addMessage(accountSid, message);
+      for (const message of account.inbound || []) this.addInboundMessage(accountSid, message);
+      for (const template of account.templates || []) this.addTemplate(accountSid, template);
+    });
+  }
+
+  getLegacy(): AccountData | undefined {
+    const legacy = this.getMeta('legacy');
+    return legacy ? (JSON.parse(legacy) as AccountData) : undefined;
+  }
+
+  clearLegacy(): void {
+    this.db.prepare("DELETE FROM meta WHERE key = 'legacy'").run();
+  }
+
+  /** Parks pre-partitioning data until the first login, as the JSON file does. */
+  setLegacy(legacy: AccountData): void {
+    this.setMeta('legacy', JSON.stringify(legacy));
+  }
+
+  // ─── Contacts ──────────────────────────────────────────────────
+
+  getContacts(accountSid: string): Contact[] {
+    return parseAll<Contact>(
+      this.db
+        .prepare('SELECT data FROM contacts WHERE account_sid = ? ORDER BY rowid')
+        .all(accountSid) as Row[]
+    );
+  }
+
+  getContact(accountSid: string, id: string): Contact | undefined {
+    return parse<Contact>(
+      this.db
+        .prepare('SELECT data FROM contacts WHERE account_sid = ? AND id = ?')
+        .get(accountSid, id) as Row | undefined
+    );
+  }
+
+  findContactByPhone(accountSid: string, phone: string): Contact | undefined {
+    return parse<Contact>(
+      this.db
+        .prepare('SELECT data FROM contacts WHERE account_sid = ? AND phone = ?')
+        .get(accountSid, phone) as Row | undefined
+    );
+  }
+
+  addContacts(accountSid: string, contacts: Contact[]): void {
+    const insert = this.db.prepare(
+      'INSERT INTO contacts (account_sid, id, phone, data) VALUES (?, ?, ?, ?)'
+    );
+    this.transaction(() => {
+      this.createAccount(accountSid);
+      for (const c of contacts) {
+        insert.run(accountSid, c.id, c.phone, JSON.stringify(c));
+      }
+    });
+  }
+
+  updateContact(
+    accountSid: string,
+    id: string,
+    updates: Partial<Contact>
+  ): Contact | undefined {
+    return this.transaction(() => {
+      const existing = this.getContact(accountSid, id);
+      if (!existing) return undefined;
+      const contact = { ...existing, ...updates };
+      this.db
+        .prepare('UPDATE contacts SET phone = ?, data = ? WHERE account_sid = ? AND id = ?')
+        .run(contact.phone, JSON.stringify(contact), accountSid, id);
+      return contact;
+    });
+  }
+
+  removeContact(accountSid: string, id: string): boolean {
+    return (
+      this.db
+        .prepare('DELETE FROM contacts WHERE account_sid = ? AND id = ?')
+        .run(accountSid, id).changes > 0
+    );
+  }
+
+  // ─── Messages ──────────────────────────────────────────────────
+
+  getMessages(accountSid: string, query: MessageQuery = {}): ScheduledMessage[] {
+    const conditions = ['account_sid = @accountSid'];
+    const params: Record<string, string> = { accountSid };
+    if (query.contactId !== undefined) {
+      conditions.push('contact_id = @contactId');
+      params.contactId = query.contactId;
+    }
+    if (query.status !== undefined) {
+      conditions.push('status = @status');
+      params.status = query.status;
+    }
+    if (query.dueBy !== undefined) {
+      // scheduledFor is always toISOString() output, so text order is time order
+      conditions.push('scheduled_for <= @dueBy');
+      params.dueBy = query.dueBy.toISOString();
+    }
+    return parseAll<ScheduledMessage>(
+      this.db
+        .prepare(`SELECT data FROM messages WHERE ${conditions.join(' AND ')} ORDER BY rowid`)
+        .all(params) as Row[]
+    );
+  }
+
+  getMessage(accountSid: string, id: string): ScheduledMessage | undefined {
+    return parse<ScheduledMessage>(
+      this.db
+        .prepare('SELECT data FROM messages WHERE account_sid = ? AND id = ?')
+        .get(accountSid, id) as Row | undefined
+    );
+  }
+
+  addMessage(accountSid: string, message: ScheduledMessage): void {
+    this.transaction(() => {
+      this.createAccount(accountSid);
+      this.db
+        .prepare(
+          `INSERT INTO messages
+             (account_sid, id, contact_id, status, scheduled_for, notification_sid, message_sid, data)
+           VALUES
+             (@account_sid, @id, @contact_id, @status, @scheduled_for, @notification_sid, @message_sid, @data)`
+        )
+        .run(messageColumns(accountSid, message));
+    });
+  }
+
+  updateMessage(
+    accountSid: string,
+    id: string,
+    updates: Partial<ScheduledMessage>
+  ): ScheduledMessage | undefined {
+    return this.transaction(() => {
+      const existing = this.getMessage(accountSid, id);
+      if (!existing) return undefined;
+      const message = { ...existing, ...updates };
+      this.db
+        .prepare(
+          `UPDATE messages SET
+             contact_id = @contact_id, status = @status, scheduled_for = @scheduled_for,
+             notification_sid = @notification_sid, message_sid = @message_sid, data = @data
+           WHERE account_sid = @account_sid AND id = @id`
+        )
+        .run(messageColumns(accountSid, message));
+      return message;
+    });
+  }
+
+  findMessageBySid(
+    sid: string,
+    accountSid?: string
+  ): { accountSid: string; message: ScheduledMessage } | undefined {
+    const row = this.db
+      .prepare(
+        `SELECT account_sid, data FROM messages
+         WHERE (notification_sid = @sid OR message_sid = @sid)
+           AND (@accountSid IS NULL OR account_sid = @accountSid)
+         LIMIT 1`
+      )
+      .get({ sid, accountSid: accountSid ?? null }) as
+      | (Row & { account_sid: string })
+      | undefined;
+    return row
+      ? { accountSid: row.account_sid, message: JSON.parse(row.data) as ScheduledMessage }
+      : undefined;
+  }
+
+  // ─── Inbound messages ──────────────────────────────────────────
+
+  getInboundMessages(accountSid: string, query: InboundQuery = {}): InboundMessage[] {
+    const conditions = ['account_sid = @accountSid'];
+    const params: Record<string, string> = { accountSid };
+    if (query.contactId !== undefined) {
+      conditions.push('contact_id = @contactId');
+      params.contactId = query.contactId;
+    }
+    if (query.unread) {
+      conditions.push('read_at IS NULL');
+    }
+    return parseAll<InboundMessage>(
+      this.db
+        .prepare(`SELECT data FROM inbound WHERE ${conditions.join(' AND ')} ORDER BY rowid`)
+        .all(params) as Row[]
+    );
+  }
+
+  addInboundMessage(accountSid: string, message: InboundMessage): void {
+    this.transaction(() => {
+      this.createAccount(accountSid);
+      this.db
+        .prepare(
+          `INSERT INTO inbound (account_sid, id, contact_id, read_at, data)
+           VALUES (@account_sid, @id, @contact_id, @read_at, @data)`
+        )
+        .run(inboundColumns(accountSid, message));
+    });
+  }
+
+  updateInboundMessage(
+    accountSid: string,
+    id: string,
+    updates: Partial<InboundMessage>
+  ): InboundMessage | undefined {
+    return this.transaction(() => {
+      const existing = parse<InboundMessage>(
+        this.db
+          .prepare('SELECT data FROM inbound WHERE account_sid = ? AND id = ?')
+          .get(accountSid, id) as Row | undefined
+      );
+      if (!existing) return undefined;
+      const message = { ...existing, ...updates };
+      this.db
+        .prepare(
+          `UPDATE inbound SET contact_id = @contact_id, read_at = @read_at, data = @data
+           WHERE account_sid = @account_sid AND id = @id`
+        )
+        .run(inboundColumns(accountSid, message));
+      return message;
+    });
+  }
+
+  // ─── Templates ─────────────────────────────────────────────────
+
+  getTemplates(accountSid: string): MessageTemplate[] {
+    return parseAll<MessageTemplate>(
+      this.db
+        .prepare('SELECT data FROM templates WHERE account_sid = ? ORDER BY rowid')
+        .all(accountSid) as Row[]
+    );
+  }
+
+  addTemplate(accountSid: string, template: MessageTemplate): void {
+    this.transaction(() => {
+      this.createAccount(accountSid);
+      this.db
+        .prepare('INSERT INTO templates (account_sid, id, data) VALUES (?, ?, ?)')
+        .run(accountSid, template.id, JSON.stringify(template));
+    });
+  }
+
+  updateTemplate(
+    accountSid: string,
+    id: string,
+    updates: Partial<MessageTemplate>
+  ): MessageTemplate | undefined {
+    return this.transaction(() => {
+      const existing = parse<MessageTemplate>(
+        this.db
+          .prepare('SELECT data FROM templates WHERE account_sid = ? AND id = ?')
+          .get(accountSid, id) as Row | undefined
+      );
+      if (!existing) return undefined;
+      const template = { ...existing, ...updates };
+      this.db
+        .prepare('UPDATE templates SET data = ? WHERE account_sid = ? AND id = ?')
+        .run(JSON.stringify(template), accountSid, id);
+      return template;
+    });
+  }
+
+  removeTemplate(accountSid: string, id: string): boolean {
+    return (
+      this.db
+        .prepare('DELETE FROM templates WHERE account_sid = ? AND id = ?')
+        .run(accountSid, id).changes > 0
+    );
+  }
+
+  // ─── Account fields ────────────────────────────────────────────
+
+  getSettings(accountSid: string): Partial<AccountSettings> | undefined {
+    const row = this.db.prepare('SELECT settings FROM accounts WHERE sid = ?').get(accountSid) as
+      | { settings: string | null }
+      | undefined;
+    return row?.settings ? (JSON.parse(row.settings) as Partial<AccountSettings>) : undefined;
+  }
+
+  setSettings(accountSid: string, settings: Partial<AccountSettings>): void {
+    this.db
+      .prepare(
+        `INSERT INTO accounts (sid, settings) VALUES (?, ?)
+         ON CONFLICT (sid) DO UPDATE SET settings = excluded.settings`
+      )
+      .run(accountSid, JSON.stringify(settings));
+  }
+
+  getNotifyServiceSid(accountSid: string): string | undefined {
+    const row = this.db
+      .prepare('SELECT notify_service_sid FROM accounts WHERE sid = ?')
+      .get(accountSid) as { notify_service_sid: string | null } | undefined;
+    return row?.notify_service_sid ?? undefined;
+  }
+
+  setNotifyServiceSid(accountSid: string, sid: string): void {
+    this.db
+      .prepare(
+        `INSERT INTO accounts (sid, notify_service_sid) VALUES (?, ?)
+         ON CONFLICT (sid) DO UPDATE SET notify_service_sid = excluded.notify_service_sid`
+      )
+      .run(accountSid, sid);
+  }
+}
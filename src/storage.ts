@@ -0,0 +1,135 @@
+/**
+ * Storage backend interface and selection.
+ *
+ * store.ts is the only caller; the rest of the app goes through its
+ * functions. STORAGE_BACKEND picks the implementation: "json" (default,
+ * data/app-data.json) or "sqlite" (data/app-data.sqlite, or SQLITE_FILE).
+ */
+import * as path from 'path';
+import { JsonFileStorage } from './json-storage';
+import { SqliteStorage } from './sqlite-storage';
+import {
+  AccountData,
+  AccountSettings,
+  Contact,
+  InboundMessage,
+  MessageStatus,
+  MessageTemplate,
+  ScheduledMessage,
+} from './types';
+
+export const DATA_DIR = path.join(__dirname, '..', 'data');
+export const JSON_DATA_FILE = path.join(DATA_DIR, 'app-data.json');
+export const SQLITE_DATA_FILE =
+  process.env.SQLITE_FILE || path.join(DATA_DIR, 'app-data.sqlite');
+
+export interface MessageQuery {
+  contactId?: string;
+  status?: MessageStatus;
+  dueBy?: Date; // scheduledFor at or before this instant
+}
+
+export interface InboundQuery {
+  contactId?: string;
+  unread?: boolean; // only messages without readAt
+}
+
+/**
+ * Records are returned as copies: changing one does nothing until it is
+ * passed back through an update method.
+ */
+export interface StorageBackend {
+  getAccountSids(): string[];
+  hasAccount(accountSid: string): boolean;
+  createAccount(accountSid: string): void;
+  getAccountData(accountSid: string): AccountData;
+  setAccountData(accountSid: string, account: AccountData): void;
+
+  // Data from before accounts were partitioned, awaiting the first login
+  getLegacy(): AccountData | undefined;
+  clearLegacy(): void;
+
+  getContacts(accountSid: string): Contact[];
+  getContact(accountSid: string, id: string): Contact | undefined;
+  findContactByPhone(accountSid: string, phone: string): Contact | undefined;
+  addContacts(accountSid: string, contacts: Contact[]): void;
+  updateContact(accountSid: string, id: string, updates: Partial<Contact>): Contact | undefined;
+  removeContact(accountSid: string, id: string): boolean;
+
+  getMessages(accountSid: string, query?: MessageQuery): ScheduledMessage[];
+  getMessage(accountSid: string, id: string): ScheduledMessage | undefined;
+  addMessage(accountSid: string, message: ScheduledMessage): void;
+  updateMessage(
+    accountSid: string,
+    id: string,
+    updates: Partial<ScheduledMessage>
+  ): ScheduledMessage | undefined;
+  findMessageBySid(
+    sid: string,
+    accountSid?: string
+  ): { accountSid: string; message: ScheduledMessage } | undefined;
+
+  getInboundMessages(accountSid: string, query?: InboundQuery): InboundMessage[];
+  addInboundMessage(accountSid: string, message: InboundMessage): void;
+  updateInboundMessage(
+    accountSid: string,
+    id: string,
+    updates: Partial<InboundMessage>
+  ): InboundMessage | undefined;
+
+  getTemplates(accountSid: string): MessageTemplate[];
+  addTemplate(accountSid: string, template: MessageTemplate): void;
+  updateTemplate(
+    accountSid: string,
+    id: string,
+    updates: Partial<MessageTemplate>
+  ): MessageTemplate | undefined;
+  removeTemplate(accountSid: string, id: string): boolean;
+
+  getSettings(accountSid: string): Partial<AccountSettings> | undefined;
+  setSettings(accountSid: string, settings: Partial<AccountSettings>): void;
+  getNotifyServiceSid(accountSid: string): string | undefined;
+  setNotifyServiceSid(accountSid: string, sid: string): void;
+
+  /**
+   * Runs fn atomically: every change is kept, or none if it throws.
+   * fn must be synchronous. Transactions nest.
+   */
+  transaction<T>(fn: () => T): T;
+  close(): void;
+}
+
+export type StorageKind = 'json' | 'sqlite';
+
+export function createStorage(kind: StorageKind): StorageBackend {
+  return kind === 'sqlite'
+    ? new SqliteStorage(SQLITE_DATA_FILE)
+    : new JsonFileStorage(JSON_DATA_FILE);
+}
+
+let storage: StorageBackend | undefined;
+
+export function getStorage(): StorageBackend {
+  if (!storage) {
+    const kind = process.env.STORAGE_BACKEND || 'json';
+    if (kind !== 'json' && kind !== 'sqlite') {
+      throw new Error(`Unknown STORAGE_BACKEND "${kind}" (expected "json" or "sqlite").`);
+    }
+    storage = createStorage(kind);
+  }
+  return storage;
+}
+
+/** Returns true when a message matches every condition of the query. */
+export function matchesQuery(message: ScheduledMessage, query: MessageQuery): boolean {
+  if (query.contactId !== undefined && message.contactId !== query.contactId) return false;
+  if (query.status !== undefined && message.status !== query.status) return false;
+  if (query.dueBy !== undefined && new Date(message.scheduledFor) > query.dueBy) return false;
+  return true;
+}
+
+export function matchesInboundQuery(message: InboundMessage, query: InboundQuery): boolean {
+  if (query.contactId !== undefined && message.contactId !== query.contactId) return false;
+  if (query.unread && message.readAt) return false;
+  return true;
+}
@@ -1,94 +1,222 @@
-import * as fs from 'fs';
-import * as path from 'path';
-import { AppData, Contact, ScheduledMessage } from './types';
+import { InboundQuery, MessageQuery, getStorage } from './storage';
+import {
+  AccountData,
+  AccountSettings,
+  Contact,
+  InboundMessage,
+  MessageTemplate,
+  ScheduledMessage,
+} from './types';
 
-const DATA_FILE = path.join(__dirname, '..', 'data', 'app-data.json');
-
-const DEFAULT_DATA: AppData = {
-  contacts: [],
-  messages: [],
+export const DEFAULT_SETTINGS: AccountSettings = {
+  leapDayPolicy: 'feb28',
+  defaultRegion: 'US',
+  budgetPolicy: 'defer',
+  catchUpHours: 12,
 };
 
-function ensureDataDir(): void {
-  const dir = path.dirname(DATA_FILE);
-  if (!fs.existsSync(dir)) {
-    fs.mkdirSync(dir, { recursive: true });
-  }
+/**
+ * Run several store calls as one atomic update (and, for the JSON file,
+ * one write). fn must be synchronous.
+ */
+export function transaction<T>(fn: () => T): T {
+  return getStorage().transaction(fn);
 }
 
-export function loadData(): AppData {
-  ensureDataDir();
-  if (!fs.existsSync(DATA_FILE)) {
-    saveData(DEFAULT_DATA);
-    return { ...DEFAULT_DATA };
-  }
-  const raw = fs.readFileSync(DATA_FILE, 'utf-8');
-  return JSON.parse(raw) as AppData;
+// ─── Accounts ────────────────────────────────────────────────────
+
+/**
+ * Make sure a partition exists for the account. The first account to
+ * log in inherits any pre-partitioning (single-file) data.
+ */
+export function ensureAccount(accountSid: string): void {
+  const storage = getStorage();
+  transaction(() => {
+    const legacy = storage.getLegacy();
+    if (storage.hasAccount(accountSid) && !legacy) return;
+
+    storage.createAccount(accountSid);
+
+    if (legacy) {
+      storage.addContacts(accountSid, legacy.contacts);
+      for (const message of legacy.messages) {
+        storage.addMessage(accountSid, message);
+      }
+      if (!storage.getNotifyServiceSid(accountSid) && legacy.notifyServiceSid) {
+        storage.setNotifyServiceSid(accountSid, legacy.notifyServiceSid);
+      }
+      storage.clearLegacy();
+      console.log(`Migrated existing contacts and messages into account ${accountSid}`);
+    }
+  });
 }
 
-export function saveData(data: AppData): void {
-  ensureDataDir();
-  fs.writeFileSync(DATA_FILE, JSON.stringify(data, null, 2), 'utf-8');
+export function getAccountSids(): string[] {
+  return getStorage().getAccountSids();
+}
+
+/** A copy of one account's partition, e.g. for backups. */
+export function getAccountData(accountSid: string): AccountData {
+  return getStorage().getAccountData(accountSid);
+}
+
+/** Replaces one account's partition wholesale, e.g. after a restore. */
+export function setAccountData(accountSid: string, account: AccountData): void {
+  getStorage().setAccountData(accountSid, account);
+}
+
+// ─── Contacts ────────────────────────────────────────────────────
+
+export function addContact(accountSid: string, contact: Contact): void {
+  getStorage().addContacts(accountSid, [contact]);
 }
 
-export function addContact(contact: Contact): void {
-  const data = loadData();
-  data.contacts.push(contact);
-  saveData(data);
+/** Adds several contacts in a single write. */
+export function addContacts(accountSid: string, contacts: Contact[]): void {
+  getStorage().addContacts(accountSid, contacts);
 }
 
-export function removeContact(id: string): boolean {
-  const data = loadData();
-  const idx = data.contacts.findIndex((c) => c.id === id);
-  if (idx === -1) return false;
-  data.contacts.splice(idx, 1);
-  // Also cancel pending messages for this contact
-  data.messages = data.messages.map((m) => {
-    if (m.contactId === id && m.status === 'scheduled') {
-      return { ...m, status: 'cancelled' as const };
+export function removeContact(accountSid: string, id: string): boolean {
+  const storage = getStorage();
+  return transaction(() => {
+    if (!storage.removeContact(accountSid, id)) return false;
+    // Also cancel pending messages for this contact
+    for (const m of storage.getMessages(accountSid, { contactId: id, status: 'scheduled' })) {
+      storage.updateMessage(accountSid, m.id, { status: 'cancelled' });
     }
-    return m;
+    return true;
   });
-  saveData(data);
-  return true;
 }
 
-export function getContacts(): Contact[] {
-  return loadData().contacts;
+export function updateContact(
+  accountSid: string,
+  id: string,
+  updates: Partial<Contact>
+): Contact | undefined {
+  return getStorage().updateContact(accountSid, id, updates);
+}
+
+export function getContacts(accountSid: string): Contact[] {
+  return getStorage().getContacts(accountSid);
 }
 
-export function getContact(id: string): Contact | undefined {
-  return loadData().contacts.find((c) => c.id === id);
+export function getContact(accountSid: string, id: string): Contact | undefined {
+  return getStorage().getContact(accountSid, id);
 }
 
-export function addMessage(message: ScheduledMessage): void {
-  const data = loadData();
-  data.messages.push(message);
-  saveData(data);
+export function findContactByPhone(accountSid: string, phone: string): Contact | undefined {
+  return getStorage().findContactByPhone(accountSid, phone);
+}
+
+// ─── Messages ────────────────────────────────────────────────────
+
+export function addMessage(accountSid: string, message: ScheduledMessage): void {
+  getStorage().addMessage(accountSid, message);
 }
 
 export function updateMessage(
+  accountSid: string,
   id: string,
   updates: Partial<ScheduledMessage>
 ): void {
-  const data = loadData();
-  const idx = data.messages.findIndex((m) => m.id === id);
-  if (idx !== -1) {
-    data.messages[idx] = { ...data.messages[idx], ...updates };
-    saveData(data);
-  }
+  getStorage().updateMessage(accountSid, id, updates);
 }
 
-export function getMessages(): ScheduledMessage[] {
-  return loadData().messages;
+export function getMessages(accountSid: string, query?: MessageQuery): ScheduledMessage[] {
+  return getStorage().getMessages(accountSid, query);
+}
+
+export function getMessage(accountSid: string, id: string): ScheduledMessage | undefined {
+  return getStorage().getMessage(accountSid, id);
+}
+
+/**
+ * Locate a message by its Notify notification SID or Messaging message SID.
+ * Searches every account unless one is given.
+ */
+export function findMessageBySid(
+  sid: string,
+  accountSid?: string
+): { accountSid: string; message: ScheduledMessage } | undefined {
+  return getStorage().findMessageBySid(sid, accountSid);
+}
+
+// ─── Inbound messages ────────────────────────────────────────────
+
+export function addInboundMessage(accountSid: string, message: InboundMessage): void {
+  getStorage().addInboundMessage(accountSid, message);
 }
 
-export function getNotifyServiceSid(): string | undefined {
-  return loadData().notifyServiceSid;
+export function getInboundMessages(accountSid: string, query?: InboundQuery): InboundMessage[] {
+  return getStorage().getInboundMessages(accountSid, query);
+}
+
+/** Marks a contact's unread replies as read. Returns how many there were. */
+export function markConversationRead(accountSid: string, contactId: string): number {
+  const storage = getStorage();
+  return transaction(() => {
+    const unread = storage.getInboundMessages(accountSid, { contactId, unread: true });
+    const readAt = new Date().toISOString();
+    for (const m of unread) {
+      storage.updateInboundMessage(accountSid, m.id, { readAt });
+    }
+    return unread.length;
+  });
+}
+
+// ─── Templates ───────────────────────────────────────────────────
+
+export function getTemplates(accountSid: string): MessageTemplate[] {
+  return getStorage().getTemplates(accountSid);
+}
+
+export function getTemplate(
+  accountSid: string,
+  id: string
+): MessageTemplate | undefined {
+  return getTemplates(accountSid).find((t) => t.id === id);
+}
+
+export function addTemplate(accountSid: string, template: MessageTemplate): void {
+  getStorage().addTemplate(accountSid, template);
+}
+
+export function updateTemplate(
+  accountSid: string,
+  id: string,
+  updates: Partial<MessageTemplate>
+): MessageTemplate | undefined {
+  return getStorage().updateTemplate(accountSid, id, updates);
+}
+
+export function removeTemplate(accountSid: string, id: string): boolean {
+  return getStorage().removeTemplate(accountSid, id);
+}
+
+// ─── Settings ────────────────────────────────────────────────────
+
+export function getSettings(accountSid: string): AccountSettings {
+  return { ...DEFAULT_SETTINGS, ...getStorage().getSettings(accountSid) };
+}
+
+export function updateSettings(
+  accountSid: string,
+  updates: Partial<AccountSettings>
+): AccountSettings {
+  const storage = getStorage();
+  return transaction(() => {
+    const settings = { ...storage.getSettings(accountSid), ...updates };
+    storage.setSettings(accountSid, settings);
+    return { ...DEFAULT_SETTINGS, ...settings };
+  });
+}
+
+// ─── Notify service ──────────────────────────────────────────────
+
+export function getNotifyServiceSid(accountSid: string): string | undefined {
+  return getStorage().getNotifyServiceSid(accountSid);
 }
 
-export function setNotifyServiceSid(sid: string): void {
-  const data = loadData();
-  data.notifyServiceSid = sid;
-  saveData(data);
+export function setNotifyServiceSid(accountSid: string, sid: string): void {
+  getStorage().setNotifyServiceSid(accountSid, sid);
 }
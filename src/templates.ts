@@ -0,0 +1,132 @@
+/**
+ * Message template rendering and validation.
+ * Templates use {{variable}} placeholders; see TEMPLATE_VARIABLES.
+ */
+import { OccasionType } from './types';
+
+export const DEFAULT_TEMPLATES = [
+  'Happy Birthday, {{name}}! Wishing you a day filled with joy, laughter, and all the things that make you smile. Have an amazing year ahead!',
+  'It\'s your special day, {{name}}! May this birthday bring you endless happiness and wonderful surprises. Cheers to another incredible year!',
+  'Happy Birthday, {{name}}! Here\'s to celebrating YOU today. May your day be as wonderful and bright as you are!',
+  'Wishing you the happiest of birthdays, {{name}}! May all your dreams come true this year. Enjoy every moment of your special day!',
+  'Happy Birthday, {{name}}! Another year of being awesome starts today. Hope your day is full of cake, fun, and unforgettable memories!',
+];
+
+// Built-in greetings for accounts with no templates of an occasion's type
+export const DEFAULT_OCCASION_TEMPLATES: Record<OccasionType, string[]> = {
+  birthday: DEFAULT_TEMPLATES,
+  anniversary: [
+    'Happy Anniversary, {{name}}! Wishing you both another year full of love and laughter.',
+    'Happy {{ordinal}} anniversary, {{firstName}}! Here\'s to many more years together.',
+  ],
+  'work-anniversary': [
+    'Happy work anniversary, {{name}}! Congratulations on {{years}} great years.',
+    'Congratulations on your work anniversary, {{firstName}}! Thanks for everything you bring to the team.',
+  ],
+  custom: ['Thinking of you today, {{name}}. Happy {{occasion}}!'],
+};
+
+// Built-in late greetings, sent by hand in place of a missed message
+export const DEFAULT_BELATED_TEMPLATES: Record<OccasionType, string[]> = {
+  birthday: [
+    'Happy belated birthday, {{name}}! Sorry this is late. I hope your day was wonderful!',
+    'A little late, but the wishes are just as warm: happy birthday, {{firstName}}!',
+  ],
+  anniversary: [
+    'Happy belated anniversary, {{name}}! Wishing you both many more happy years.',
+  ],
+  'work-anniversary': [
+    'Happy belated work anniversary, {{name}}! Congratulations on {{years}} great years.',
+  ],
+  custom: ['Belated wishes for your {{occasion}}, {{name}}!'],
+};
+
+export const TEMPLATE_VARIABLES = [
+  'name', // full contact name
+  'firstName', // first word of the name
+  'age', // age reached on this birthday, from birthdayFull
+  'ordinal', // age (or years) as an ordinal, e.g. "30th"
+  'years', // years since the occasion's first year, e.g. years married
+  'occasion', // the occasion's label, e.g. "Anniversary"
+  'senderName', // account's sender name setting
+] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+export type TemplateValues = Partial<Record<TemplateVariable, string>>;
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export function findUnknownPlaceholders(body: string): string[] {
+  const unknown = new Set<string>();
+  for (const match of body.matchAll(PLACEHOLDER)) {
+    if (!(TEMPLATE_VARIABLES as readonly string[]).includes(match[1])) {
+      unknown.add(match[1]);
+    }
+  }
+  return Array.from(unknown);
+}
+
+function sanitize(value: string): string {
+  return value.replace(/[<>]/g, '').trim();
+}
+
+export function renderTemplate(body: string, values: TemplateValues): string {
+  return body.replace(PLACEHOLDER, (placeholder, key: string) => {
+    if (!(TEMPLATE_VARIABLES as readonly string[]).includes(key)) return placeholder;
+    return sanitize(values[key as TemplateVariable] || '');
+  });
+}
+
+export function ordinal(n: number): string {
+  const mod100 = n % 100;
+  if (mod100 >= 11 && mod100 <= 13) return `${n}th`;
+  switch (n % 10) {
+    case 1:
+      return `${n}st`;
+    case 2:
+      return `${n}nd`;
+    case 3:
+      return `${n}rd`;
+    default:
+      return `${n}th`;
+  }
+}
+
+function yearsSince(dateFull: string | undefined, year: number): number | undefined {
+  const first = dateFull ? parseInt(dateFull.substring(0, 4), 10) : NaN;
+  const years = year - first;
+  return !isNaN(years) && years > 0 ? years : undefined;
+}
+
+/**
+ * Values for a contact's occasion in the given year; their birthday when
+ * no occasion is given.
+ */
+export function getTemplateValues(
+  contact: { name: string; birthdayFull?: string },
+  year: number,
+  senderName?: string,
+  occasion: { type: OccasionType; label: string; dateFull?: string } = {
+    type: 'birthday',
+    label: 'Birthday',
+    dateFull: contact.birthdayFull,
+  }
+): TemplateValues {
+  const name = sanitize(contact.name);
+  const values: TemplateValues = {
+    name,
+    firstName: name.split(/\s+/)[0],
+    occasion: occasion.label,
+    senderName,
+  };
+
+  const years = yearsSince(occasion.dateFull, year);
+  if (years !== undefined) {
+    values.years = String(years);
+    values.ordinal = ordinal(years);
+  }
+  const age = yearsSince(contact.birthdayFull, year);
+  if (age !== undefined) values.age = String(age);
+
+  return values;
+}
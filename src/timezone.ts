@@ -0,0 +1,107 @@
+/**
+ * IANA time zone helpers built on Intl, so scheduling in a contact's
+ * local time needs no extra dependencies.
+ */
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getServerTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes): number =>
+    parseInt(parts.find((p) => p.type === type)?.value || '0', 10);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+function getOffsetMs(instant: number, timeZone: string): number {
+  const p = getZonedParts(new Date(instant), timeZone);
+  const wall = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wall - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in a zone to the matching instant.
+ * A time skipped by a DST spring-forward moves later by the gap; a time
+ * repeated by a fall-back resolves to the first occurrence.
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const naive = Date.UTC(year, month - 1, day, hour, minute);
+  // Zones change offset at most once a day, so the offsets a day either
+  // side cover both sides of any transition near this time
+  const dayMs = 24 * 60 * 60 * 1000;
+  const candidates = Array.from(
+    new Set(
+      [naive - dayMs, naive, naive + dayMs].map((t) => naive - getOffsetMs(t, timeZone))
+    )
+  );
+
+  const wanted = new Date(naive);
+  const matches = candidates.filter((t) => {
+    const p = getZonedParts(new Date(t), timeZone);
+    return (
+      p.year === wanted.getUTCFullYear() &&
+      p.month === wanted.getUTCMonth() + 1 &&
+      p.day === wanted.getUTCDate() &&
+      p.hour === wanted.getUTCHours() &&
+      p.minute === wanted.getUTCMinutes()
+    );
+  });
+
+  // Nothing matches in a spring-forward gap; the earlier offset lands past it
+  return new Date(matches.length > 0 ? Math.min(...matches) : Math.max(...candidates));
+}
+
+/** Parse "HH:MM" (24-hour). Returns null when malformed. */
+export function parseSendTime(value: string): { hour: number; minute: number } | null {
+  const match = value.match(/^(\d{2}):(\d{2})$/);
+  if (!match) return null;
+  const hour = parseInt(match[1], 10);
+  const minute = parseInt(match[2], 10);
+  if (hour > 23 || minute > 59) return null;
+  return { hour, minute };
+}
@@ -0,0 +1,129 @@
+/**
+ * Twilio API error codes: parsing them from error responses, what they
+ * mean and what to do about them, and whether a failed send is worth
+ * retrying.
+ */
+
+export interface TwilioErrorBody {
+  code?: number;
+  message?: string;
+}
+
+export interface TwilioErrorInfo {
+  code: number;
+  cause: string;
+  remedy: string;
+  permanent: boolean; // retrying fails the same way
+}
+
+function entry(code: number, cause: string, remedy: string, permanent = true): TwilioErrorInfo {
+  return { code, cause, remedy, permanent };
+}
+
+// Errors from the send API (21xxx) and from delivery callbacks (30xxx)
+const CATALOG: TwilioErrorInfo[] = [
+  entry(
+    21211,
+    'The phone number is not a valid number.',
+    "Check the contact's phone number, including the country code."
+  ),
+  entry(
+    21408,
+    "Sending to the destination country isn't enabled for this account.",
+    "Enable the country under Messaging > Settings > Geo permissions in the Twilio Console."
+  ),
+  entry(
+    21608,
+    'Trial accounts can only send to verified numbers, and this one is not verified.',
+    'Verify the number under Phone Numbers > Verified Caller IDs in the Twilio Console, or upgrade the account.'
+  ),
+  entry(
+    21610,
+    'The recipient has opted out by replying STOP.',
+    'Nothing can be sent until they reply START to opt back in.'
+  ),
+  entry(
+    21612,
+    'The number cannot be reached from the sending number.',
+    'Check the number is a mobile in a supported country, or send from a number in the same region.'
+  ),
+  entry(
+    21614,
+    'The number is not a mobile number and cannot receive SMS.',
+    "Replace the contact's number with a mobile number."
+  ),
+  entry(
+    21703,
+    'The messaging service has no sender available for this number.',
+    'Add a phone number able to reach this country to the messaging service sender pool.'
+  ),
+  entry(
+    21704,
+    'The messaging service has no senders.',
+    'Add a phone number to the messaging service sender pool in the Twilio Console.'
+  ),
+  entry(
+    30003,
+    'The handset was unreachable (switched off or out of coverage).',
+    'Nothing is wrong with the number; send again later.',
+    false
+  ),
+  entry(
+    30004,
+    'The message was blocked, e.g. the recipient blocked the sender or opted out with their carrier.',
+    'Ask the recipient to unblock the number or contact them another way.'
+  ),
+  entry(
+    30005,
+    'The number is unknown to the carrier or no longer in service.',
+    "Check the contact's phone number is still current."
+  ),
+  entry(
+    30006,
+    'The number is a landline or cannot receive SMS.',
+    "Replace the contact's number with a mobile number."
+  ),
+  entry(
+    30007,
+    'The carrier filtered the message as spam.',
+    'Make the template read less like marketing (fewer links and capitals) and send again.',
+    false
+  ),
+];
+
+const CATALOG_BY_CODE = new Map(CATALOG.map((info) => [info.code, info]));
+
+/** Cause and remedy for a Twilio error code, if it is one we know. */
+export function describeTwilioError(code?: number): TwilioErrorInfo | undefined {
+  return code === undefined ? undefined : CATALOG_BY_CODE.get(code);
+}
+
+/** Code and message from an API error body, e.g. {"code": 21610, "message": "..."}. */
+export function parseTwilioErrorBody(body: unknown): TwilioErrorBody {
+  let parsed = body;
+  if (typeof body === 'string') {
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      return {};
+    }
+  }
+  if (typeof parsed !== 'object' || parsed === null) return {};
+
+  const fields = parsed as { code?: unknown; message?: unknown };
+  const result: TwilioErrorBody = {};
+  const code = Number(fields.code);
+  if (Number.isInteger(code) && code > 0) result.code = code;
+  if (typeof fields.message === 'string' && fields.message) result.message = fields.message;
+  return result;
+}
+
+/**
+ * Transient failures (no response, rate limiting, Twilio server errors)
+ * are retryable; other 4xx responses and known permanent codes are not.
+ */
+export function isRetryableFailure(statusCode?: number, errorCode?: number): boolean {
+  if (describeTwilioError(errorCode)?.permanent) return false;
+  if (statusCode === undefined) return true; // timeout or network error
+  return statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
@@ -0,0 +1,89 @@
+/**
+ * Twilio request signature validation for inbound webhooks.
+ * See https://www.twilio.com/docs/usage/security#validating-requests
+ */
+import crypto from 'crypto';
+import express from 'express';
+
+export type WebhookParams = Record<string, string | string[] | undefined>;
+
+/**
+ * Compute the expected X-Twilio-Signature: HMAC-SHA1 (keyed with the auth
+ * token) of the full URL followed by every POST parameter, sorted by name,
+ * with each name immediately followed by its value(s). Base64 encoded.
+ */
+export function computeTwilioSignature(
+  authToken: string,
+  url: string,
+  params: WebhookParams = {}
+): string {
+  const payload = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => {
+      const value = params[key];
+      if (value === undefined) return acc;
+      const values = Array.isArray(value) ? [...value].sort() : [value];
+      return acc + values.map((v) => key + v).join('');
+    }, url);
+
+  return crypto
+    .createHmac('sha1', authToken)
+    .update(Buffer.from(payload, 'utf-8'))
+    .digest('base64');
+}
+
+export function isValidTwilioSignature(
+  authToken: string,
+  signature: string,
+  url: string,
+  params: WebhookParams = {}
+): boolean {
+  const expected = Buffer.from(computeTwilioSignature(authToken, url, params));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * The URL Twilio signed. Behind a reverse proxy the host/protocol Express sees
+ * differ from the public ones, so prefer the configured public base URL.
+ */
+export function getSignedUrl(req: express.Request, publicBaseUrl?: string): string {
+  const base = publicBaseUrl || `${req.protocol}://${req.get('host')}`;
+  return base.replace(/\/+$/, '') + req.originalUrl;
+}
+
+export interface TwilioWebhookGuardOptions {
+  // Look up the auth token for the account the webhook claims to be from
+  getAuthToken: (accountSid: string) => string | undefined;
+  publicBaseUrl?: string;
+}
+
+export function createTwilioWebhookGuard(options: TwilioWebhookGuardOptions) {
+  return function twilioWebhookGuard(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ): void {
+    const signature = req.get('X-Twilio-Signature');
+    const params: WebhookParams = req.body || {};
+    const accountSid = typeof params.AccountSid === 'string' ? params.AccountSid : undefined;
+    const authToken = accountSid ? options.getAuthToken(accountSid) : undefined;
+
+    if (
+      !signature ||
+      !authToken ||
+      !isValidTwilioSignature(
+        authToken,
+        signature,
+        getSignedUrl(req, options.publicBaseUrl),
+        params
+      )
+    ) {
+      console.warn(`Rejected webhook ${req.originalUrl}: invalid Twilio signature`);
+      res.status(403).json({ error: 'Invalid Twilio signature.' });
+      return;
+    }
+
+    next();
+  };
+}
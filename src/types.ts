@@ -4,17 +4,81 @@ export interface Contact {
   phone: string; // E.164 format
   birthday: string; // MM-DD format
   birthdayFull: string; // YYYY-MM-DD (original input for display)
+  country?: string; // ISO 3166-1 alpha-2 of the phone number
+  numberType?: string; // libphonenumber type, e.g. mobile, fixed_line
+  smsCapable?: boolean; // false for landlines; such contacts are flagged
+  bindingSid?: string; // Notify SMS binding for the phone number
+  timeZone?: string; // IANA zone, e.g. Asia/Tokyo; absent on older contacts
+  sendTime?: string; // HH:MM local send time for occasions without their own; defaults to 09:00
+  occasions?: Occasion[]; // absent on older contacts, which only have their birthday
+  groups?: string[]; // lower-case group names, also tags on the Notify binding
+  templateMode?: TemplateMode; // older contacts only; now on the birthday occasion
+  templateId?: string; // older contacts only; now on the birthday occasion
+  optedOut?: boolean; // replied STOP; nothing is scheduled or sent until they opt back in
+  optOutLog?: OptOutEvent[]; // every opt-out / opt-in, oldest first
   createdAt: string;
 }
 
+export type OptOutSource = 'inbound-sms';
+
+export interface OptOutEvent {
+  optedOut: boolean; // true for an opt-out, false for opting back in
+  at: string; // ISO 8601 date-time
+  source: OptOutSource;
+  keyword?: string; // the message that triggered it, e.g. STOP
+}
+
+export type OccasionType = 'birthday' | 'anniversary' | 'work-anniversary' | 'custom';
+
+/** A date celebrated every year with its own message. */
+export interface Occasion {
+  id: string; // 'birthday' for the birthday occasion
+  type: OccasionType;
+  label?: string; // required for 'custom', e.g. "Name day"
+  date?: string; // MM-DD; the birthday occasion uses the contact's birthday instead
+  dateFull?: string; // YYYY-MM-DD when the first year is known, for {{years}}
+  sendTime?: string; // HH:MM local; defaults to the contact's send time
+  templateMode?: TemplateMode; // defaults to 'random'
+  templateId?: string; // used when templateMode is 'fixed'
+}
+
+// 'random' picks from the account's template pool; 'fixed' always uses templateId
+export type TemplateMode = 'random' | 'fixed';
+
+export interface MessageTemplate {
+  id: string;
+  name: string;
+  body: string; // may contain {{name}}, {{firstName}}, {{age}}, {{ordinal}}, {{years}}, {{occasion}}, {{senderName}}
+  occasionType?: OccasionType; // pool the template belongs to; defaults to 'birthday'
+  belated?: boolean; // a late greeting, offered after a missed message instead of the usual pool
+  createdAt: string;
+  updatedAt?: string;
+}
+
 export type MessageStatus =
   | 'scheduled'
   | 'sending'
   | 'sent'
   | 'delivered'
   | 'failed'
+  | 'missed' // overdue past the catch-up window, e.g. after downtime; never sent
   | 'cancelled';
 
+export interface DeliveryEvent {
+  status: string; // raw Twilio status (queued, sent, delivered, undelivered, failed, ...)
+  at: string; // ISO 8601 date-time the callback was received
+  errorCode?: number;
+}
+
+export interface SendAttempt {
+  at: string; // ISO 8601 date-time the API call was made
+  success: boolean;
+  error?: string;
+  statusCode?: number;
+  errorCode?: number;
+  retryable?: boolean;
+}
+
 export interface ScheduledMessage {
   id: string;
   contactId: string;
@@ -24,17 +88,80 @@ export interface ScheduledMessage {
   scheduledFor: string; // ISO 8601 date-time
   status: MessageStatus;
   notificationSid?: string;
+  messageSid?: string; // SM... SID reported by delivery status callbacks
   errorMessage?: string;
+  errorCode?: number;
+  pendingReason?: string; // why a due 'scheduled' message has not been sent yet
+  leapDayAdjustment?: LeapDayPolicy; // set when a 02-29 birthday was moved in a common year
+  deferredFrom?: string; // original scheduledFor when the send was pushed later
+  deferralReason?: string;
+  deliveryEvents?: DeliveryEvent[];
+  sendAttemptedAt?: string; // stored just before the API call; 'sending' without it was never attempted
+  sendInterrupted?: boolean; // failed because the server stopped mid-send; a late callback can still confirm it
+  attempts?: SendAttempt[]; // every API call for this message, oldest first
+  retryPending?: boolean; // back to 'scheduled' after a retryable failure
+  reply?: boolean; // sent from the conversation view rather than as a greeting
+  occasionId?: string; // Occasion.id of the contact; absent on older (birthday) messages
+  occasionType?: OccasionType;
+  belatedMessageId?: string; // on a missed message: the belated greeting sent in its place
+  quietHoursOverride?: boolean; // sent now during the recipient's quiet hours on request
+  custom?: boolean; // one-off message at a time chosen by the user, not for an occasion
+  broadcastId?: string; // shared by the messages of one broadcast to a group
+  broadcastGroup?: string;
   sentAt?: string;
   deliveredAt?: string;
   createdAt: string;
   year: number; // The year this message is scheduled for
 }
 
-export interface AppData {
+// Where a 02-29 birthday (or other occasion) is celebrated in common (non-leap) years
+export type LeapDayPolicy = 'feb28' | 'mar1';
+
+// Daily window (recipient-local HH:MM) with no sends; wraps midnight when start > end
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+// What happens to a new scheduled message that would exceed the monthly budget
+export type BudgetPolicy = 'block' | 'defer';
+
+export interface AccountSettings {
+  leapDayPolicy: LeapDayPolicy;
+  senderName?: string; // fills {{senderName}} in templates
+  defaultRegion?: string; // ISO country for numbers entered without a country code
+  smsPrices?: Record<string, number>; // USD per segment by ISO country, overrides the defaults
+  defaultSmsPrice?: number; // USD per segment for countries without a price
+  monthlyBudget?: number; // USD cap on scheduled spend per calendar month
+  budgetPolicy: BudgetPolicy;
+  quietHours?: QuietHours; // unset means messages go out at any hour
+  catchUpHours: number; // how late a due message may still go out before it is missed
+}
+
+/** An SMS a recipient sent to us, e.g. a reply to a birthday message. */
+export interface InboundMessage {
+  id: string;
+  contactId?: string; // the contact with the sender's number when it arrived
+  from: string; // E.164
+  to?: string; // our number it was sent to
+  body: string;
+  messageSid?: string;
+  receivedAt: string; // ISO 8601 date-time
+  readAt?: string; // set when the conversation is opened
+}
+
+export interface AccountData {
   contacts: Contact[];
   messages: ScheduledMessage[];
+  inbound?: InboundMessage[];
+  templates?: MessageTemplate[];
   notifyServiceSid?: string;
+  settings?: Partial<AccountSettings>;
+}
+
+export interface AppData {
+  accounts: Record<string, AccountData>; // keyed by Twilio Account SID
+  legacy?: AccountData; // pre-partitioning data awaiting the first login
 }
 
 export interface SessionCredentials {